@@ -1,12 +1,29 @@
 
 
-import React, { useState, useEffect } from 'react';
-import { AppState, Scenario, Message, AnalysisResult, SessionRecord, DevelopmentLevel } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppState, Scenario, Message, AnalysisResult, SessionRecord, DevelopmentLevel, AdminSession, LibraryScenario, TrainingProgram, ProgramAssignmentRef, SelfDiagnosis, MessagePacing, ConversationTree, TimerSettings, SessionCheckpoint } from './types';
 import { generateScenarios, analyzeFullSession, getEmployeeResponse } from './services/geminiService';
+import { linkTurnsToMessages } from './services/transcriptLinker';
+import { setProxyUser } from './services/proxyService';
+import { listLibraryScenarios, withoutVersionHistory } from './services/scenarioLibrary';
+import { listPrograms, getParticipantPrograms, getStepProgress } from './services/programStore';
+import { loadRubricForCompany } from './services/rubrics';
+import { getAllSessions, putSession, updateSessions, deleteSessions, subscribeToSessionChanges } from './services/sessionStore';
+import { hasAdminAccounts, setupFirstAdmin, loginAdmin, logoutAdmin, getActiveAdminSession, attachApiToken, MIN_PASSWORD_LENGTH } from './services/authService';
+import { isApiStorageEnabled, setApiParticipant, setApiAdminToken, checkApiAdminToken } from './services/apiClient';
 import { ScenarioSelector } from './components/ScenarioSelector';
 import { ChatInterface } from './components/ChatInterface';
 import { FeedbackView } from './components/FeedbackView';
 import { DashboardView } from './components/DashboardView';
+import { TranscriptView } from './components/TranscriptView';
+import { ParticipantProfileView } from './components/ParticipantProfileView';
+import { ParticipantRef, isSameParticipant } from './services/participantProfile';
+import { createTrackedActionItems, updateActionItem, collectOpenActionItems } from './services/actionItems';
+import { getTurnClassifications, scoreSessionByRules, SLII_LEVELS } from './services/sliiScoring';
+import { createConversationTree, forkBranch, getBranchHistory, saveBranchHistory } from './services/conversationTree';
+import { buildSessionTiming, DEFAULT_TIMER, formatClock, resolveTimer } from './services/sessionTiming';
+import { saveCheckpoint, loadCheckpoint, clearCheckpoint, updateCheckpointClock, countManagerTurns, CHECKPOINT_CLOCK_INTERVAL_MS } from './services/sessionCheckpoint';
+import { CommitmentsPanel } from './components/CommitmentsPanel';
 import { Button } from './components/Button';
 
 // Utility for URL encoding/decoding
@@ -35,121 +52,120 @@ const App: React.FC = () => {
   const [userName, setUserName] = useState<string>("");
   const [companyName, setCompanyName] = useState<string>(""); 
   const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [libraryScenarios, setLibraryScenarios] = useState<LibraryScenario[]>([]); // Includes archived entries (programs may still use them)
+  const [programs, setPrograms] = useState<TrainingProgram[]>([]);
+  const [currentAssignment, setCurrentAssignment] = useState<ProgramAssignmentRef | null>(null); // Program step being played, if any
   const [currentScenario, setCurrentScenario] = useState<Scenario | null>(null);
+  const [blindMode, setBlindMode] = useState(false); // Participant's choice for free practice; programs can force it
+  const [isBlindSession, setIsBlindSession] = useState(false);
+  const [practiceMode, setPracticeMode] = useState(false); // Hints would give the level away, so never in blind sessions
+  const [isPracticeSession, setIsPracticeSession] = useState(false);
+  const [hintedMessageIds, setHintedMessageIds] = useState<Set<string>>(new Set());
+  const [conversationTree, setConversationTree] = useState<ConversationTree | null>(null); // Created on the first rewind
+  const [sessionTimer, setSessionTimer] = useState<TimerSettings>(DEFAULT_TIMER);
+  const elapsedSecondsRef = useRef(0); // Kept out of state so the per-second tick doesn't re-render App
+  const [resumeElapsedSeconds, setResumeElapsedSeconds] = useState(0); // Clock start for the next ChatInterface mount
+  const [checkpoint, setCheckpoint] = useState<SessionCheckpoint | null>(() => loadCheckpoint()); // Interrupted session offered on INTRO
+  const [beforeDiagnosis, setBeforeDiagnosis] = useState<SelfDiagnosis | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [loading, setLoading] = useState(false); // General loading (analysis)
   const [botTyping, setBotTyping] = useState(false); // Chat typing state
   const [sharedScenario, setSharedScenario] = useState<Scenario | null>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null); // Transcript/turn cross-highlight in ANALYSIS
+  const [profileParticipant, setProfileParticipant] = useState<ParticipantRef | null>(null); // Set while browsing a participant profile
+  // Admin session is restored from localStorage and expires on its own
+  const [adminSession, setAdminSession] = useState<AdminSession | null>(() => {
+    const session = getActiveAdminSession();
+    setApiAdminToken(session?.apiToken); // Before the first records load, so a restored admin sees the whole team
+    return session;
+  });
+  const isAdmin = !!adminSession;
   const [adminIdInput, setAdminIdInput] = useState("");
   const [adminPasswordInput, setAdminPasswordInput] = useState("");
+  const [adminNameInput, setAdminNameInput] = useState(""); // First-run setup only
+  const [adminPasswordConfirmInput, setAdminPasswordConfirmInput] = useState(""); // First-run setup only
+  const [adminApiTokenInput, setAdminApiTokenInput] = useState(""); // SESSION_STORE=api only
+  const [isAuthenticating, setIsAuthenticating] = useState(false);
   
-  // LocalStorage Mock DB - Uses lazy initialization to prevent data loss on mount
-  const [records, setRecords] = useState<SessionRecord[]>(() => {
-    let initialData: SessionRecord[] = [];
+  // Session records live in IndexedDB (services/sessionStore); this is the in-memory copy for rendering
+  const [records, setRecords] = useState<SessionRecord[]>([]);
+  const initialLoadStarted = useRef(false);
+
+  const reloadRecords = async () => {
     try {
-      const saved = localStorage.getItem('slii_records');
-      if (saved) {
-        initialData = JSON.parse(saved);
-      }
+      setRecords(await getAllSessions());
     } catch (e) {
-      console.error("Failed to load records from localStorage", e);
-      initialData = [];
+      console.error("Failed to load records from IndexedDB", e);
     }
+  };
 
-    // --- EMERGENCY DATA RESTORE LOGIC FOR 'Reign Vale' ---
-    const targetUser = "Reign Vale";
-    const exists = initialData.some(r => r.userName === targetUser && !r.isDeleted);
-    
-    if (!exists) {
-       console.warn("Restoring missing data for Reign Vale...");
-       const restoredRecord: SessionRecord = {
-          id: "restored-reign-vale-" + Date.now(),
-          userName: "Reign Vale",
-          companyName: "Restored Data",
-          scenarioTitle: "신중한 전문가 (D3) - 프로젝트 리스크 관리",
-          date: new Date().toISOString(),
-          score: 92,
-          isDeleted: false,
-          employeeName: "박현우",
-          employeeRole: "데이터 분석가",
-          developmentLevel: DevelopmentLevel.D3,
-          result: {
-             leaderStyleIdentified: ["S3", "S2"],
-             styleScore: { S1: 10, S2: 30, S3: 50, S4: 10 },
-             isMatch: true,
-             score: 92,
-             summaryFeedback: "[데이터 복구됨] Reign Vale님은 D3 단계의 팀원에게 필요한 '지원형(S3)' 리더십을 적절히 발휘했습니다. 팀원의 우려사항을 경청하고 격려하며, 의사결정 과정에 함께 참여하도록 유도한 점이 매우 훌륭했습니다. 지시보다는 질문을 통해 스스로 답을 찾게 도운 점이 고득점의 요인입니다.",
-             turnByTurnAnalysis: [
-                {
-                   userMessageSnippet: "현우님, 이번 프로젝트 리스크에 대해 걱정이 많으신 것 같아요. 구체적으로 어떤 점이 가장 우려되나요?",
-                   critique: "팀원의 감정을 읽고 구체적인 원인을 파악하려는 개방형 질문입니다. S3 스타일의 전형적인 좋은 예시입니다.",
-                   betterAlternative: ""
-                },
-                {
-                   userMessageSnippet: "제가 도와드릴 부분은 지원하겠지만, 해결책은 현우님이 더 잘 아실 것 같아요. 어떻게 하면 좋을까요?",
-                   critique: "책임을 위임하지 않고 함께 해결책을 모색하며 역량을 인정해준 점이 좋습니다.",
-                   betterAlternative: ""
-                }
-             ],
-             actionPlan: [
-                {
-                   task: "정기적인 1:1 미팅으로 자신감 고취하기",
-                   deadline: "매주 금요일",
-                   metric: "팀원의 제안 횟수 증가 확인"
-                }
-             ]
-          }
-       };
-       // Prepend the restored record
-       initialData = [restoredRecord, ...initialData];
-       // Save immediately to persist restoration
-       try {
-         localStorage.setItem('slii_records', JSON.stringify(initialData));
-       } catch(e) {}
-    }
-    // -----------------------------------------------------
-
-    return initialData;
-  });
-
-  // Save records whenever they change - acts as a fallback/sync mechanism
+  // Initial load (includes the one-time migration from localStorage).
+  // Guarded so StrictMode's double effect run can't restore the record below twice.
   useEffect(() => {
-    try {
-      const currentJSON = JSON.stringify(records);
-      if (localStorage.getItem('slii_records') !== currentJSON) {
-        localStorage.setItem('slii_records', currentJSON);
+    if (initialLoadStarted.current) return;
+    initialLoadStarted.current = true;
+
+    const loadInitialRecords = async () => {
+      let initialData: SessionRecord[] = [];
+      try {
+        initialData = await getAllSessions();
+      } catch (e) {
+        console.error("Failed to load records from IndexedDB", e);
+        initialData = [];
       }
-    } catch (e) {
-      console.error("Failed to save records to localStorage", e);
-    }
-  }, [records]);
+
+      setRecords(initialData);
+    };
+    loadInitialRecords();
+  }, []);
 
   // Sync with other tabs
   useEffect(() => {
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'slii_records' && e.newValue) {
-        try {
-          const syncedRecords = JSON.parse(e.newValue);
-          setRecords(prev => {
-             const prevJSON = JSON.stringify(prev);
-             return prevJSON === e.newValue ? prev : syncedRecords;
-          });
-        } catch (error) {
-          console.error("Failed to sync records", error);
-        }
+    return subscribeToSessionChanges(() => {
+      reloadRecords();
+    });
+  }, []);
+
+  // Expire the admin session while the app is open
+  useEffect(() => {
+    if (!adminSession) return;
+    const checkExpiry = () => {
+      if (!getActiveAdminSession()) {
+        setAdminSession(null);
+        setApiAdminToken();
+        setAppState(prev => {
+          if (prev === AppState.DASHBOARD || prev === AppState.PARTICIPANT_PROFILE) {
+            alert("관리자 세션이 만료되었습니다. 다시 로그인해주세요.");
+            return AppState.ADMIN_LOGIN;
+          }
+          return prev;
+        });
       }
     };
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, []);
+    const timer = setInterval(checkExpiry, 30000);
+    return () => clearInterval(timer);
+  }, [adminSession]);
 
-  // Load scenarios when entering selection state (initial load only if empty)
+  // Load the library and programs when entering selection state; generate scenarios only if there is nothing curated to pick
   useEffect(() => {
-    if (appState === AppState.SCENARIO_SELECTION && scenarios.length === 0) {
-      handleRefreshScenarios();
-    }
+    if (appState !== AppState.SCENARIO_SELECTION) return;
+    listPrograms()
+      .then(setPrograms)
+      .catch(error => console.error("Failed to load programs", error));
+    listLibraryScenarios()
+      .catch(error => {
+        console.error("Failed to load scenario library", error);
+        return [] as LibraryScenario[];
+      })
+      .then(loaded => {
+        // Participants only play the current version; the edit history would bloat every stored session
+        const all = loaded.map(withoutVersionHistory);
+        setLibraryScenarios(all);
+        if (!all.some(s => !s.isArchived) && scenarios.length === 0) {
+          handleRefreshScenarios();
+        }
+      });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [appState]);
 
@@ -191,6 +207,8 @@ const App: React.FC = () => {
       alert("회사명을 입력해주세요.");
       return;
     }
+    setProxyUser(`${companyName.trim()}/${userName.trim()}`);
+    identifyParticipant(companyName, userName);
 
     if (sharedScenario) {
       handleSelectScenario(sharedScenario);
@@ -199,20 +217,120 @@ const App: React.FC = () => {
     }
   };
 
-  const handleAdminLoginSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (adminIdInput.trim() === "admin" && adminPasswordInput.trim() === "admin1234") {
-      setIsAdmin(true);
-      setAdminIdInput("");
-      setAdminPasswordInput("");
+  const resetAdminInputs = () => {
+    setAdminIdInput("");
+    setAdminPasswordInput("");
+    setAdminNameInput("");
+    setAdminPasswordConfirmInput("");
+    setAdminApiTokenInput("");
+  };
+
+  // With the team server, participants only get their own records; reload once we know who is playing
+  const identifyParticipant = (company: string, user: string) => {
+    setApiParticipant(company, user);
+    if (isApiStorageEnabled()) reloadRecords();
+  };
+
+  // API mode: the admin must also hold the server's ADMIN_TOKEN to read team data. Checked before signing in.
+  const verifyAdminApiToken = async (): Promise<boolean> => {
+    if (!isApiStorageEnabled()) return true;
+    if (await checkApiAdminToken(adminApiTokenInput.trim())) return true;
+    alert("서버 관리자 토큰이 올바르지 않습니다.");
+    return false;
+  };
+
+  const startAdminSession = (session: AdminSession) => {
+    const connected = isApiStorageEnabled() ? attachApiToken(session, adminApiTokenInput.trim()) : session;
+    setAdminSession(connected);
+    setApiAdminToken(connected.apiToken);
+    if (isApiStorageEnabled()) reloadRecords();
+  };
+
+  const handleOpenAdmin = () => {
+    const session = getActiveAdminSession();
+    // Sessions from before the server required ADMIN_TOKEN have to sign in again
+    if (session && (session.apiToken || !isApiStorageEnabled())) {
+      setAdminSession(session);
       setAppState(AppState.DASHBOARD);
     } else {
-      alert("아이디 또는 비밀번호가 틀렸습니다.");
+      setAppState(hasAdminAccounts() ? AppState.ADMIN_LOGIN : AppState.ADMIN_SETUP);
     }
   };
 
-  const handleSelectScenario = (scenario: Scenario) => {
+  const handleAdminLoginSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsAuthenticating(true);
+    try {
+      if (!(await verifyAdminApiToken())) return;
+      const session = await loginAdmin(adminIdInput, adminPasswordInput);
+      if (session) {
+        startAdminSession(session);
+        resetAdminInputs();
+        setAppState(AppState.DASHBOARD);
+      } else {
+        alert("아이디 또는 비밀번호가 틀렸습니다.");
+      }
+    } catch (error: any) {
+      console.error("Admin login failed", error);
+      alert(`로그인 중 오류가 발생했습니다.\n\n내용: ${error.message || String(error)}`);
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  const handleAdminSetupSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (adminPasswordInput !== adminPasswordConfirmInput) {
+      alert("비밀번호가 일치하지 않습니다.");
+      return;
+    }
+    setIsAuthenticating(true);
+    try {
+      if (!(await verifyAdminApiToken())) return;
+      const session = await setupFirstAdmin(adminIdInput, adminNameInput, adminPasswordInput);
+      startAdminSession(session);
+      resetAdminInputs();
+      setAppState(AppState.DASHBOARD);
+    } catch (error: any) {
+      alert(error.message || String(error));
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  const handleAdminLogout = () => {
+    logoutAdmin();
+    setAdminSession(null);
+    setApiAdminToken();
+    if (isApiStorageEnabled()) reloadRecords();
+    setAppState(AppState.INTRO);
+  };
+
+  // Participant side of the growth profile: their own sessions only, identified like everywhere else by name + company
+  const handleViewOwnProfile = () => {
+    setProxyUser(`${companyName.trim()}/${userName.trim()}`);
+    identifyParticipant(companyName, userName);
+    setProfileParticipant({ userName: userName.trim(), companyName: companyName.trim() });
+    setAppState(AppState.PARTICIPANT_PROFILE);
+  };
+
+  const handleSelectScenario = (scenario: Scenario, assignment: ProgramAssignmentRef | null = null) => {
+    setProfileParticipant(null);
+    const program = assignment ? programs.find(p => p.id === assignment.programId) : undefined;
     setCurrentScenario(scenario);
+    setCurrentAssignment(assignment);
+    const isBlind = blindMode || !!program?.blindMode;
+    setIsBlindSession(isBlind);
+    setIsPracticeSession(practiceMode && !isBlind && !assignment); // Program assignments are always scored without hints
+    setHintedMessageIds(new Set());
+    setConversationTree(null);
+    setSessionTimer(resolveTimer(scenario, program));
+    elapsedSecondsRef.current = 0;
+    setResumeElapsedSeconds(0);
+    // A new session replaces any interrupted one
+    clearCheckpoint();
+    setCheckpoint(null);
+    setBeforeDiagnosis(null);
     setMessages([{
       id: Date.now().toString(),
       role: 'model',
@@ -223,6 +341,79 @@ const App: React.FC = () => {
     setAppState(AppState.ROLEPLAY);
   };
 
+  // Checkpoint after each completed turn (not mid-stream) so a reload or crash can pick the session up again
+  useEffect(() => {
+    if (appState !== AppState.ROLEPLAY || !currentScenario || botTyping || loading) return;
+    if (!messages.some(m => m.role === 'user')) return;
+    const next: SessionCheckpoint = {
+      savedAt: new Date().toISOString(),
+      userName,
+      companyName,
+      scenario: currentScenario,
+      assignment: currentAssignment ?? undefined,
+      messages,
+      conversationTree: conversationTree ?? undefined,
+      isBlind: isBlindSession,
+      beforeDiagnosis: beforeDiagnosis ?? undefined,
+      isPractice: isPracticeSession,
+      hintedMessageIds: Array.from(hintedMessageIds),
+      timer: sessionTimer,
+      elapsedSeconds: elapsedSecondsRef.current,
+    };
+    saveCheckpoint(next);
+    setCheckpoint(next);
+  }, [appState, messages, botTyping, conversationTree, hintedMessageIds]);
+
+  // Between turns only the clock moves: save it periodically and when the page is hidden or closed
+  useEffect(() => {
+    if (appState !== AppState.ROLEPLAY) return;
+    const saveClock = () => updateCheckpointClock(elapsedSecondsRef.current);
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveClock();
+    };
+    const timer = setInterval(saveClock, CHECKPOINT_CLOCK_INTERVAL_MS);
+    window.addEventListener('pagehide', saveClock);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('pagehide', saveClock);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      saveClock();
+    };
+  }, [appState]);
+
+  // The banner shows the clock as last saved, which may have moved since the turn checkpoint
+  useEffect(() => {
+    if (appState === AppState.INTRO) setCheckpoint(loadCheckpoint());
+  }, [appState]);
+
+  const handleResumeCheckpoint = () => {
+    if (!checkpoint) return;
+    setUserName(checkpoint.userName);
+    setCompanyName(checkpoint.companyName);
+    setProxyUser(`${checkpoint.companyName.trim()}/${checkpoint.userName.trim()}`);
+    identifyParticipant(checkpoint.companyName, checkpoint.userName);
+    setCurrentScenario(checkpoint.scenario);
+    setCurrentAssignment(checkpoint.assignment ?? null);
+    setIsBlindSession(checkpoint.isBlind);
+    setIsPracticeSession(checkpoint.isPractice);
+    setHintedMessageIds(new Set(checkpoint.hintedMessageIds));
+    setConversationTree(checkpoint.conversationTree ?? null);
+    setSessionTimer(checkpoint.timer);
+    elapsedSecondsRef.current = checkpoint.elapsedSeconds;
+    setResumeElapsedSeconds(checkpoint.elapsedSeconds);
+    setBeforeDiagnosis(checkpoint.beforeDiagnosis ?? null);
+    setMessages(checkpoint.messages);
+    setAnalysisResult(null);
+    setAppState(AppState.ROLEPLAY);
+  };
+
+  const handleDiscardCheckpoint = () => {
+    if (!window.confirm("저장된 진행 중 대화를 삭제하시겠습니까? 삭제하면 이어서 할 수 없습니다.")) return;
+    clearCheckpoint();
+    setCheckpoint(null);
+  };
+
   const handleShareScenario = (scenario: Scenario) => {
     const encoded = encodeScenario(scenario);
     const url = `${window.location.origin}${window.location.pathname}?scenario=${encoded}`;
@@ -231,75 +422,105 @@ const App: React.FC = () => {
     });
   };
 
-  const handleSendMessage = async (text: string) => {
+  const handleSendMessage = async (text: string, pacing?: MessagePacing) => {
     if (!currentScenario) return;
 
     const userMsg: Message = {
       id: Date.now().toString(),
       role: 'user',
       text: text,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      pacing
     };
     const updatedMessages = [...messages, userMsg];
     setMessages(updatedMessages);
 
     setBotTyping(true);
+    const botMsgId = (Date.now() + 1).toString();
+
+    // Create the reply bubble on the first chunk, then keep rewriting its text as the stream grows
+    const upsertBotMessage = (text: string) => {
+      setMessages(prev => {
+        if (prev.some(m => m.id === botMsgId)) {
+          return prev.map(m => m.id === botMsgId ? { ...m, text } : m);
+        }
+        return [...prev, { id: botMsgId, role: 'model', text, timestamp: Date.now() }];
+      });
+    };
+
     try {
-      const replyText = await getEmployeeResponse(currentScenario, updatedMessages);
-      
-      const botMsg: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: replyText,
-        timestamp: Date.now() + 1
-      };
-      setMessages(prev => [...prev, botMsg]);
+      const replyText = await getEmployeeResponse(currentScenario, updatedMessages, upsertBotMessage);
+      // The final text is authoritative: it replaces any partial stream (e.g. with an error notice)
+      upsertBotMessage(replyText);
     } catch (e) {
       console.error(e);
-      setMessages(prev => [...prev, {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: "시스템 오류가 발생했습니다. 잠시 후 다시 시도해 주세요.",
-        timestamp: Date.now() + 1
-      }]);
+      upsertBotMessage("시스템 오류가 발생했습니다. 잠시 후 다시 시도해 주세요.");
     } finally {
       setBotTyping(false);
     }
   };
 
-  const handleFinishSession = async () => {
+  // Rewind: keep the current conversation as a branch and continue from just before the chosen manager message
+  const handleRewind = (messageId: string) => {
+    const tree = conversationTree ?? createConversationTree(messages);
+    const forked = forkBranch(saveBranchHistory(tree, tree.activeBranchId, messages), tree.activeBranchId, messageId);
+    setConversationTree(forked);
+    setMessages(getBranchHistory(forked, forked.activeBranchId));
+  };
+
+  const handleSwitchBranch = (branchId: string) => {
+    if (!conversationTree) return;
+    const saved = saveBranchHistory(conversationTree, conversationTree.activeBranchId, messages);
+    setConversationTree({ ...saved, activeBranchId: branchId });
+    setMessages(getBranchHistory(saved, branchId));
+  };
+
+  const handleFinishSession = async (afterDiagnosis?: SelfDiagnosis) => {
     if (!currentScenario) return;
     
     setLoading(true);
     try {
-      const result = await analyzeFullSession(currentScenario, messages);
+      const rubric = await loadRubricForCompany(companyName);
+      const diagnosis = isBlindSession ? { before: beforeDiagnosis ?? undefined, after: afterDiagnosis } : undefined;
+      const tree = conversationTree ? saveBranchHistory(conversationTree, conversationTree.activeBranchId, messages) : undefined;
+      const timing = buildSessionTiming(sessionTimer, elapsedSecondsRef.current, messages);
+      const result = await analyzeFullSession(currentScenario, messages, rubric, diagnosis, tree, timing);
       setAnalysisResult(result);
+      setFocusedMessageId(null);
+      clearCheckpoint();
+      setCheckpoint(null);
       
       // Save Record
+      const recordId = Date.now().toString();
+      const recordDate = new Date().toISOString();
       const newRecord: SessionRecord = {
-        id: Date.now().toString(),
+        id: recordId,
         userName: userName,
         companyName: companyName,
         scenarioTitle: currentScenario.title,
-        date: new Date().toISOString(),
+        date: recordDate,
         score: result.score,
         isDeleted: false,
         result: result,
+        transcript: messages,
+        scenario: currentScenario,
+        assignment: currentAssignment ?? undefined,
+        actionItems: createTrackedActionItems(result.actionPlan || [], recordId, recordDate),
+        coachingHints: isPracticeSession ? { enabled: true, shownTurns: hintedMessageIds.size } : undefined,
+        conversationTree: tree,
+        timing,
         employeeName: currentScenario.employeeName,
         employeeRole: currentScenario.employeeRole,
         developmentLevel: currentScenario.developmentLevel
       };
 
-      // Critical: Save synchronously to localStorage to prevent data loss
-      setRecords(prev => {
-        const updated = [newRecord, ...prev];
-        try {
-          localStorage.setItem('slii_records', JSON.stringify(updated));
-        } catch (e) {
-          console.error("Critical Save Error:", e);
-        }
-        return updated;
-      });
+      setRecords(prev => [newRecord, ...prev]);
+      try {
+        await putSession(newRecord);
+      } catch (e) {
+        console.error("Critical Save Error:", e);
+        alert("세션 결과를 저장하지 못했습니다. 브라우저 저장소 설정을 확인해주세요.");
+      }
       
       setAppState(AppState.ANALYSIS);
     } catch (error: any) {
@@ -310,39 +531,62 @@ const App: React.FC = () => {
     }
   };
 
+  // Participant check-ins on their action items; saved on the owning session record
+  const handleUpdateActionItem = (recordId: string, itemId: string, patch: Parameters<typeof updateActionItem>[2]) => {
+    const record = records.find(r => r.id === recordId);
+    if (!record) return;
+    const updated = updateActionItem(record, itemId, patch);
+    setRecords(prev => prev.map(r => r.id === recordId ? updated : r));
+    putSession(updated).catch(e => {
+      console.error("Failed to save action item", e);
+      reloadRecords();
+    });
+  };
+
   // Dashboard logic - Single & Bulk Actions
+  // Updates are applied optimistically, then written per record; on failure we reload from the store
   const handleRestore = (id: string | string[]) => {
     const ids = Array.isArray(id) ? id : [id];
-    setRecords(prev => {
-      const updated = prev.map(r => ids.includes(r.id) ? { ...r, isDeleted: false } : r);
-      localStorage.setItem('slii_records', JSON.stringify(updated));
-      return updated;
+    setRecords(prev => prev.map(r => ids.includes(r.id) ? { ...r, isDeleted: false } : r));
+    updateSessions(ids, { isDeleted: false }).catch(e => {
+      console.error("Failed to restore records", e);
+      reloadRecords();
     });
   };
   
   const handleMoveToTrash = (id: string | string[]) => {
     const ids = Array.isArray(id) ? id : [id];
-    setRecords(prev => {
-      const updated = prev.map(r => ids.includes(r.id) ? { ...r, isDeleted: true } : r);
-      localStorage.setItem('slii_records', JSON.stringify(updated));
-      return updated;
+    setRecords(prev => prev.map(r => ids.includes(r.id) ? { ...r, isDeleted: true } : r));
+    updateSessions(ids, { isDeleted: true }).catch(e => {
+      console.error("Failed to move records to trash", e);
+      reloadRecords();
     });
   };
   
   const handleDeleteForever = (id: string | string[]) => {
     if(window.confirm("정말로 영구 삭제하시겠습니까?")) {
       const ids = Array.isArray(id) ? id : [id];
-      setRecords(prev => {
-        const updated = prev.filter(r => !ids.includes(r.id));
-        localStorage.setItem('slii_records', JSON.stringify(updated));
-        return updated;
+      setRecords(prev => prev.filter(r => !ids.includes(r.id)));
+      deleteSessions(ids).catch(e => {
+        console.error("Failed to delete records", e);
+        reloadRecords();
       });
     }
   };
   
   const handleViewDetail = (record: SessionRecord) => {
-    setAnalysisResult(record.result);
-    setCurrentScenario({
+    const transcript = record.transcript || [];
+    const level = record.scenario?.developmentLevel || record.developmentLevel;
+    // Older records have no messageId links or rule-based score; recover them from the transcript where possible
+    setAnalysisResult({
+      ...record.result,
+      turnByTurnAnalysis: linkTurnsToMessages(record.result.turnByTurnAnalysis || [], transcript),
+      ruleBasedScore: record.result.ruleBasedScore || (level && transcript.length > 0 ? scoreSessionByRules(level, transcript) : undefined)
+    });
+    setMessages(transcript);
+    setFocusedMessageId(null);
+    // Records saved before transcripts were stored only have the scenario summary fields
+    setCurrentScenario(record.scenario || {
        id: "archived",
        title: record.scenarioTitle,
        description: "Archived Session",
@@ -355,6 +599,23 @@ const App: React.FC = () => {
   };
 
 
+  const renderFeedbackView = () => currentScenario && analysisResult ? (
+    <FeedbackView 
+      result={analysisResult} 
+      scenario={currentScenario}
+      onNewScenario={() => {
+        setAppState(AppState.SCENARIO_SELECTION);
+        setMessages([]);
+        setAnalysisResult(null);
+        setCurrentScenario(null);
+      }}
+      userName={userName}
+      onGoToDashboard={() => setAppState(isAdmin ? AppState.DASHBOARD : AppState.INTRO)}
+      focusedMessageId={focusedMessageId}
+      onFocusMessage={messages.length > 0 ? setFocusedMessageId : undefined}
+    />
+  ) : null;
+
   const renderContent = () => {
     switch (appState) {
       case AppState.INTRO:
@@ -375,6 +636,22 @@ const App: React.FC = () => {
               </p>
 
               <div className="bg-white p-8 rounded-2xl shadow-xl border border-slate-100 max-w-md mx-auto">
+                {checkpoint && (
+                  <div className="mb-6 p-4 bg-amber-50 rounded-lg text-sm text-amber-900 border border-amber-200 text-left">
+                    <span className="font-bold block mb-1">⏸ 이어서 할 수 있는 대화가 있습니다</span>
+                    "{checkpoint.scenario.title}" · {checkpoint.userName} · {countManagerTurns(checkpoint)}턴 진행
+                    <div className="text-xs text-amber-700 mt-1">
+                      {checkpoint.timer.mode === 'untimed'
+                        ? `경과 시간 ${formatClock(checkpoint.elapsedSeconds)}`
+                        : `남은 시간 ${formatClock(Math.max(0, checkpoint.timer.durationSeconds - checkpoint.elapsedSeconds))}`}
+                      {' · '}{new Date(checkpoint.savedAt).toLocaleString()} 저장
+                    </div>
+                    <div className="flex gap-2 mt-3">
+                      <Button size="sm" onClick={handleResumeCheckpoint}>이어하기</Button>
+                      <Button size="sm" variant="outline" onClick={handleDiscardCheckpoint}>삭제</Button>
+                    </div>
+                  </div>
+                )}
                 {sharedScenario && (
                   <div className="mb-6 p-4 bg-indigo-50 rounded-lg text-sm text-indigo-800 border border-indigo-100 text-left">
                     <span className="font-bold block mb-1">🔗 공유된 시나리오가 감지되었습니다</span>
@@ -412,14 +689,26 @@ const App: React.FC = () => {
                   {sharedScenario ? '공유된 상황 시작하기' : '코칭 시작하기'}
                 </Button>
               </div>
+
+              {userName.trim() && companyName.trim() && (
+                <>
+                  <CommitmentsPanel
+                    entries={collectOpenActionItems(records.filter(r => isSameParticipant(r, { userName, companyName })))}
+                    onUpdate={handleUpdateActionItem}
+                  />
+                  <button onClick={handleViewOwnProfile} className="mt-6 text-sm text-indigo-600 hover:text-indigo-800 font-medium">
+                    내 성장 프로필 보기 &rarr;
+                  </button>
+                </>
+              )}
               
               <div className="mt-12 pt-8 border-t border-slate-200">
                  <button 
-                   onClick={() => setAppState(AppState.ADMIN_LOGIN)} 
+                   onClick={handleOpenAdmin} 
                    className="text-sm text-slate-400 hover:text-indigo-600 font-medium transition-colors flex items-center justify-center mx-auto"
                  >
                     <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
-                    관리자 로그인 (Admin Access)
+                    {adminSession ? `대시보드로 이동 (${adminSession.displayName})` : '관리자 로그인 (Admin Access)'}
                  </button>
               </div>
             </div>
@@ -442,7 +731,8 @@ const App: React.FC = () => {
                          value={adminIdInput}
                          onChange={(e) => setAdminIdInput(e.target.value)}
                          className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
-                         placeholder="admin"
+                         placeholder="아이디"
+                         autoComplete="username"
                          autoFocus
                        />
                     </div>
@@ -454,22 +744,34 @@ const App: React.FC = () => {
                          onChange={(e) => setAdminPasswordInput(e.target.value)}
                          className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
                          placeholder="Password"
+                         autoComplete="current-password"
                        />
                     </div>
+                    {isApiStorageEnabled() && (
+                      <div className="mb-6">
+                         <label className="block text-sm font-medium text-slate-700 mb-2">서버 관리자 토큰 (ADMIN_TOKEN)</label>
+                         <input 
+                           type="password"
+                           value={adminApiTokenInput}
+                           onChange={(e) => setAdminApiTokenInput(e.target.value)}
+                           className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+                           autoComplete="off"
+                         />
+                      </div>
+                    )}
                     <div className="flex gap-4">
                        <Button 
                          type="button" 
                          variant="secondary" 
                          className="flex-1" 
                          onClick={() => {
-                           setAdminIdInput("");
-                           setAdminPasswordInput("");
+                           resetAdminInputs();
                            setAppState(AppState.INTRO);
                          }}
                        >
                          취소
                        </Button>
-                       <Button type="submit" className="flex-1">
+                       <Button type="submit" className="flex-1" isLoading={isAuthenticating}>
                          로그인
                        </Button>
                     </div>
@@ -478,26 +780,140 @@ const App: React.FC = () => {
            </div>
         );
 
-      case AppState.DASHBOARD:
+      case AppState.ADMIN_SETUP:
         return (
+           <div className="min-h-screen flex items-center justify-center bg-slate-50 p-6">
+              <div className="max-w-md w-full bg-white p-8 rounded-2xl shadow-xl border border-slate-100">
+                 <div className="text-center mb-8">
+                    <h2 className="text-2xl font-bold text-slate-900">관리자 계정 설정</h2>
+                    <p className="text-slate-500 mt-2">처음 사용하시는군요. 팀 대시보드를 관리할 첫 관리자 계정을 만들어주세요.</p>
+                 </div>
+                 <form onSubmit={handleAdminSetupSubmit}>
+                    <div className="mb-4">
+                       <label className="block text-sm font-medium text-slate-700 mb-2">아이디 (ID)</label>
+                       <input 
+                         type="text"
+                         value={adminIdInput}
+                         onChange={(e) => setAdminIdInput(e.target.value)}
+                         className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+                         autoComplete="username"
+                         autoFocus
+                       />
+                    </div>
+                    <div className="mb-4">
+                       <label className="block text-sm font-medium text-slate-700 mb-2">이름 (퍼실리테이터)</label>
+                       <input 
+                         type="text"
+                         value={adminNameInput}
+                         onChange={(e) => setAdminNameInput(e.target.value)}
+                         className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+                         placeholder="홍길동"
+                       />
+                    </div>
+                    <div className="mb-4">
+                       <label className="block text-sm font-medium text-slate-700 mb-2">비밀번호 ({MIN_PASSWORD_LENGTH}자 이상)</label>
+                       <input 
+                         type="password"
+                         value={adminPasswordInput}
+                         onChange={(e) => setAdminPasswordInput(e.target.value)}
+                         className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+                         autoComplete="new-password"
+                       />
+                    </div>
+                    <div className="mb-6">
+                       <label className="block text-sm font-medium text-slate-700 mb-2">비밀번호 확인</label>
+                       <input 
+                         type="password"
+                         value={adminPasswordConfirmInput}
+                         onChange={(e) => setAdminPasswordConfirmInput(e.target.value)}
+                         className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+                         autoComplete="new-password"
+                       />
+                    </div>
+                    {isApiStorageEnabled() && (
+                      <div className="mb-6">
+                         <label className="block text-sm font-medium text-slate-700 mb-2">서버 관리자 토큰 (ADMIN_TOKEN)</label>
+                         <input 
+                           type="password"
+                           value={adminApiTokenInput}
+                           onChange={(e) => setAdminApiTokenInput(e.target.value)}
+                           className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+                           autoComplete="off"
+                         />
+                      </div>
+                    )}
+                    <div className="flex gap-4">
+                       <Button 
+                         type="button" 
+                         variant="secondary" 
+                         className="flex-1" 
+                         onClick={() => {
+                           resetAdminInputs();
+                           setAppState(AppState.INTRO);
+                         }}
+                       >
+                         취소
+                       </Button>
+                       <Button type="submit" className="flex-1" isLoading={isAuthenticating}>
+                         계정 만들기
+                       </Button>
+                    </div>
+                 </form>
+              </div>
+           </div>
+        );
+
+      case AppState.DASHBOARD:
+        return adminSession ? (
           <DashboardView 
             records={records}
+            adminSession={adminSession}
             onRestore={handleRestore}
             onMoveToTrash={handleMoveToTrash}
             onDeleteForever={handleDeleteForever}
-            onBackToIntro={() => {
-              setIsAdmin(false);
-              setAppState(AppState.INTRO);
+            onBackToIntro={() => setAppState(AppState.INTRO)}
+            onLogout={handleAdminLogout}
+            onViewDetail={(record) => {
+              setProfileParticipant(null); // Back from the detail should return to the dashboard, not a stale profile
+              handleViewDetail(record);
+            }}
+            onViewProfile={(participant) => {
+              setProfileParticipant(participant);
+              setAppState(AppState.PARTICIPANT_PROFILE);
+            }}
+          />
+        ) : null;
+
+      case AppState.PARTICIPANT_PROFILE:
+        // Admins open anyone's profile from the dashboard; participants only their own, from INTRO
+        return profileParticipant ? (
+          <ParticipantProfileView
+            participant={profileParticipant}
+            records={records}
+            onBack={() => {
+              setProfileParticipant(null);
+              setAppState(adminSession ? AppState.DASHBOARD : AppState.INTRO);
             }}
             onViewDetail={handleViewDetail}
+            backLabel={adminSession ? undefined : '처음 화면으로'}
           />
-        );
+        ) : null;
 
       case AppState.SCENARIO_SELECTION:
         return (
           <ScenarioSelector 
             scenarios={scenarios} 
+            libraryScenarios={libraryScenarios.filter(s => !s.isArchived)}
+            assignments={getParticipantPrograms(programs, userName, companyName).map(program => ({
+              program,
+              steps: getStepProgress(program, userName, libraryScenarios, records),
+            }))}
+            onSelectAssignment={(programId, scenario) => handleSelectScenario(scenario, { programId, scenarioId: scenario.id })}
             onSelect={handleSelectScenario} 
+            blindMode={blindMode}
+            onBlindModeChange={setBlindMode}
+            practiceMode={practiceMode}
+            onPracticeModeChange={setPracticeMode}
             isLoading={loading}
             onRefresh={handleRefreshScenarios}
             onShare={handleShareScenario}
@@ -530,6 +946,17 @@ const App: React.FC = () => {
                 isAnalyzing={loading}
                 isChatting={botTyping}
                 userName={userName}
+                isBlind={isBlindSession}
+                beforeDiagnosis={beforeDiagnosis}
+                onDiagnoseBefore={setBeforeDiagnosis}
+                practiceMode={isPracticeSession}
+                onHintShown={(messageId) => setHintedMessageIds(prev => prev.has(messageId) ? prev : new Set(prev).add(messageId))}
+                conversationTree={conversationTree}
+                onRewind={handleRewind}
+                onSwitchBranch={handleSwitchBranch}
+                timer={sessionTimer}
+                initialElapsedSeconds={resumeElapsedSeconds}
+                onElapsedChange={(seconds) => { elapsedSecondsRef.current = seconds; }}
               />
             </div>
           </div>
@@ -538,11 +965,11 @@ const App: React.FC = () => {
       case AppState.ANALYSIS:
         return currentScenario && analysisResult ? (
           <div className="min-h-screen bg-slate-50 p-6 print:p-0 print:bg-white">
-             <header className="max-w-4xl mx-auto mb-6 flex items-center justify-between print:hidden">
-               {isAdmin ? (
-                 <button onClick={() => setAppState(AppState.DASHBOARD)} className="text-slate-500 hover:text-slate-800 flex items-center text-sm font-medium">
+             <header className={`${messages.length > 0 ? 'max-w-7xl' : 'max-w-4xl'} mx-auto mb-6 flex items-center justify-between print:hidden`}>
+               {isAdmin || profileParticipant ? (
+                 <button onClick={() => setAppState(profileParticipant ? AppState.PARTICIPANT_PROFILE : AppState.DASHBOARD)} className="text-slate-500 hover:text-slate-800 flex items-center text-sm font-medium">
                    <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7"/></svg>
-                   대시보드
+                   {profileParticipant ? (isAdmin ? '참여자 프로필' : '내 성장 프로필') : '대시보드'}
                  </button>
                ) : (
                  <button onClick={() => setAppState(AppState.INTRO)} className="text-slate-500 hover:text-slate-800 flex items-center text-sm font-medium">
@@ -551,18 +978,24 @@ const App: React.FC = () => {
                  </button>
                )}
             </header>
-            <FeedbackView 
-              result={analysisResult} 
-              scenario={currentScenario}
-              onNewScenario={() => {
-                setAppState(AppState.SCENARIO_SELECTION);
-                setMessages([]);
-                setAnalysisResult(null);
-                setCurrentScenario(null);
-              }}
-              userName={userName}
-              onGoToDashboard={() => setAppState(isAdmin ? AppState.DASHBOARD : AppState.INTRO)}
-            />
+            {messages.length > 0 ? (
+              // Real conversation shown next to the report, with turns and messages cross-linked
+              <div className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_380px] gap-6 items-start">
+                <div className="min-w-0">{renderFeedbackView()}</div>
+                <aside className="lg:sticky lg:top-6 print:hidden">
+                  <TranscriptView
+                    scenario={currentScenario}
+                    messages={messages}
+                    turns={analysisResult.turnByTurnAnalysis}
+                    behaviors={getTurnClassifications(analysisResult)}
+                    expectedStyle={SLII_LEVELS[currentScenario.developmentLevel]?.needs}
+                    userName={userName}
+                    focusedMessageId={focusedMessageId}
+                    onFocusMessage={setFocusedMessageId}
+                  />
+                </aside>
+              </div>
+            ) : renderFeedbackView()}
           </div>
         ) : null;
         
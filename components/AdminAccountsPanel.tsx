@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { AdminSession } from '../types';
+import { Button } from './Button';
+import {
+  listAdminAccounts,
+  createAdminAccount,
+  deleteAdminAccount,
+  changeAdminPassword,
+  MIN_PASSWORD_LENGTH
+} from '../services/authService';
+
+interface AdminAccountsPanelProps {
+  session: AdminSession;
+  onClose: () => void;
+}
+
+export const AdminAccountsPanel: React.FC<AdminAccountsPanelProps> = ({ session, onClose }) => {
+  const [accounts, setAccounts] = useState(() => listAdminAccounts());
+  const [isSaving, setIsSaving] = useState(false);
+
+  // New facilitator form
+  const [newUsername, setNewUsername] = useState('');
+  const [newDisplayName, setNewDisplayName] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+
+  // Password change form
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [changedPassword, setChangedPassword] = useState('');
+  const [changedPasswordConfirm, setChangedPasswordConfirm] = useState('');
+
+  const handleAddAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await createAdminAccount(newUsername, newDisplayName, newPassword);
+      setAccounts(listAdminAccounts());
+      setNewUsername('');
+      setNewDisplayName('');
+      setNewPassword('');
+    } catch (error: any) {
+      alert(error.message || String(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteAccount = (accountId: string, displayName: string) => {
+    if (!window.confirm(`${displayName} 계정을 삭제하시겠습니까?`)) return;
+    try {
+      deleteAdminAccount(accountId, session);
+      setAccounts(listAdminAccounts());
+    } catch (error: any) {
+      alert(error.message || String(error));
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (changedPassword !== changedPasswordConfirm) {
+      alert("새 비밀번호가 일치하지 않습니다.");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await changeAdminPassword(session.accountId, currentPassword, changedPassword);
+      setCurrentPassword('');
+      setChangedPassword('');
+      setChangedPasswordConfirm('');
+      alert("비밀번호가 변경되었습니다.");
+    } catch (error: any) {
+      alert(error.message || String(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center sticky top-0 bg-white z-10">
+          <h2 className="text-xl font-bold text-slate-900">관리자 계정 관리</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-8">
+          {/* Facilitator List */}
+          <section>
+            <h3 className="font-bold text-slate-800 mb-3 border-b pb-2">퍼실리테이터 목록</h3>
+            <ul className="divide-y divide-slate-100">
+              {accounts.map(account => (
+                <li key={account.id} className="py-3 flex items-center justify-between text-sm">
+                  <div>
+                    <span className="font-medium text-slate-900">{account.displayName}</span>
+                    <span className="text-slate-400 ml-2">@{account.username}</span>
+                    {account.id === session.accountId && (
+                      <span className="ml-2 text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded">나</span>
+                    )}
+                  </div>
+                  {account.id !== session.accountId && (
+                    <button
+                      onClick={() => handleDeleteAccount(account.id, account.displayName)}
+                      className="text-slate-400 hover:text-red-600 text-xs md:text-sm"
+                    >
+                      삭제
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          {/* Add Facilitator */}
+          <section>
+            <h3 className="font-bold text-slate-800 mb-3 border-b pb-2">퍼실리테이터 추가</h3>
+            <form onSubmit={handleAddAccount} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+              <input type="text" value={newUsername} onChange={(e) => setNewUsername(e.target.value)} placeholder="아이디" className={inputClass} />
+              <input type="text" value={newDisplayName} onChange={(e) => setNewDisplayName(e.target.value)} placeholder="이름" className={inputClass} />
+              <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} placeholder={`비밀번호 (${MIN_PASSWORD_LENGTH}자 이상)`} className={inputClass} />
+              <Button type="submit" size="sm" className="md:col-span-3" isLoading={isSaving} disabled={!newUsername.trim() || !newPassword}>
+                계정 추가
+              </Button>
+            </form>
+          </section>
+
+          {/* Change Own Password */}
+          <section>
+            <h3 className="font-bold text-slate-800 mb-3 border-b pb-2">내 비밀번호 변경</h3>
+            <form onSubmit={handleChangePassword} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+              <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} placeholder="현재 비밀번호" className={inputClass} />
+              <input type="password" value={changedPassword} onChange={(e) => setChangedPassword(e.target.value)} placeholder="새 비밀번호" className={inputClass} />
+              <input type="password" value={changedPasswordConfirm} onChange={(e) => setChangedPasswordConfirm(e.target.value)} placeholder="새 비밀번호 확인" className={inputClass} />
+              <Button type="submit" size="sm" variant="outline" className="md:col-span-3" isLoading={isSaving} disabled={!currentPassword || !changedPassword}>
+                비밀번호 변경
+              </Button>
+            </form>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { StyleKey, TurnClassification } from '../types';
+import { SLII_BEHAVIORS } from '../services/sliiScoring';
+
+interface BehaviorChipsProps {
+  classification: TurnClassification;
+  expectedStyle?: StyleKey; // Highlights turns that fall outside the style the follower needs
+}
+
+const STYLE_CHIP_CLASSES: Record<StyleKey, string> = {
+  S1: 'bg-red-100 text-red-700',
+  S2: 'bg-orange-100 text-orange-700',
+  S3: 'bg-blue-100 text-blue-700',
+  S4: 'bg-green-100 text-green-700',
+};
+
+// Directive/supportive ratings, resulting style and tagged SLII behaviors for one manager message
+export const BehaviorChips: React.FC<BehaviorChipsProps> = ({ classification, expectedStyle }) => {
+  const { directive, supportive, style, behaviors = [] } = classification;
+  const isOffStyle = expectedStyle !== undefined && style !== expectedStyle;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1 text-[11px]">
+      <span
+        className={`font-bold px-2 py-0.5 rounded-full ${STYLE_CHIP_CLASSES[style]} ${isOffStyle ? 'ring-1 ring-amber-400' : ''}`}
+        title={isOffStyle ? `필요한 스타일: ${expectedStyle}` : undefined}
+      >
+        {style}{isOffStyle && ` ≠ ${expectedStyle}`}
+      </span>
+      <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">지시 {directive} · 지원 {supportive}</span>
+      {behaviors.map(behavior => (
+        <span
+          key={behavior}
+          className={`px-2 py-0.5 rounded-full border ${SLII_BEHAVIORS[behavior].kind === 'directive' ? 'border-red-200 text-red-600' : 'border-blue-200 text-blue-600'}`}
+        >
+          {SLII_BEHAVIORS[behavior].label}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -1,16 +1,34 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Message, Scenario } from '../types';
+import { ConversationTree, Message, MessagePacing, Scenario, SelfDiagnosis, TimerSettings } from '../types';
 import { Button } from './Button';
+import { DiagnosisForm } from './DiagnosisForm';
+import { summarizePersona } from '../services/employeePersona';
+import { maskLevelReferences } from '../services/selfDiagnosis';
+import { getCoachingHint } from '../services/coachingHints';
+import { DEFAULT_TIMER, formatClock } from '../services/sessionTiming';
+import { CoachingPanel } from './CoachingPanel';
+import { cancelSpeech, createRecognizer, isSpeaking, isVoiceSupported, speak } from '../services/speech';
 
 interface ChatInterfaceProps {
   scenario: Scenario;
   messages: Message[];
-  onSendMessage: (text: string) => void;
-  onFinishSession: () => void;
+  onSendMessage: (text: string, pacing?: MessagePacing) => void;
+  onFinishSession: (afterDiagnosis?: SelfDiagnosis) => void;
   isAnalyzing: boolean;
   isChatting: boolean; // Is the bot typing?
   userName?: string;
+  isBlind?: boolean; // Hide the development level and ask for a self-diagnosis before and after
+  beforeDiagnosis?: SelfDiagnosis | null;
+  onDiagnoseBefore?: (diagnosis: SelfDiagnosis) => void;
+  practiceMode?: boolean; // Show a coaching hint and live style gauge after each manager turn
+  onHintShown?: (messageId: string) => void;
+  conversationTree?: ConversationTree | null; // Set once the participant has rewound
+  onRewind?: (messageId: string) => void; // Start a new branch in place of this manager message
+  onSwitchBranch?: (branchId: string) => void;
+  timer?: TimerSettings;
+  initialElapsedSeconds?: number; // Set when resuming a checkpointed session
+  onElapsedChange?: (elapsedSeconds: number) => void; // Called every second while the conversation runs
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
@@ -20,33 +38,105 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   onFinishSession,
   isAnalyzing,
   isChatting,
-  userName = '나'
+  userName = '나',
+  isBlind = false,
+  beforeDiagnosis,
+  onDiagnoseBefore,
+  practiceMode = false,
+  onHintShown,
+  conversationTree,
+  onRewind,
+  onSwitchBranch,
+  timer = DEFAULT_TIMER,
+  initialElapsedSeconds = 0,
+  onElapsedChange
 }) => {
   const [inputText, setInputText] = useState('');
-  const [remainingTime, setRemainingTime] = useState(300); // 5 minutes in seconds
+  const [isDiagnosingAfter, setIsDiagnosingAfter] = useState(false);
+  const awaitingBeforeDiagnosis = isBlind && !beforeDiagnosis;
+  const [elapsedSeconds, setElapsedSeconds] = useState(initialElapsedSeconds);
+  const isTimed = timer.mode !== 'untimed';
+  const remainingTime = Math.max(0, timer.durationSeconds - elapsedSeconds);
+  const isTimeUp = timer.mode === 'hard' && remainingTime === 0; // No more messages; blind sessions still owe the post-diagnosis
+  const autoFinishedRef = useRef(false);
+  const [showHints, setShowHints] = useState(true);
+  const hint = practiceMode ? getCoachingHint(scenario, messages) : null;
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  // Timer logic (Countdown)
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setRemainingTime(prev => {
-        if (prev <= 0) {
-          clearInterval(timer);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-    return () => clearInterval(timer);
-  }, []);
+  // Voice mode and pacing. Latency runs from the end of the employee's reply to the manager starting to answer.
+  const [voiceSupported] = useState(isVoiceSupported);
+  const [isVoiceMode, setIsVoiceMode] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+  const recognizerRef = useRef<ReturnType<typeof createRecognizer>>(null);
+  const spokenMessageIdRef = useRef<string | null>(null);
+  const replyEndedAtRef = useRef<number | null>(null);
+  const answerStartedAtRef = useRef<number | null>(null);
+  const interruptedRef = useRef(false);
+  const transcriptRef = useRef('');
+  const listeningAbortedRef = useRef(false); // Set before abort() so onEnd drops the unfinished utterance
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  // Stops recognition without sending what was heard so far
+  const abortListening = () => {
+    listeningAbortedRef.current = true;
+    transcriptRef.current = '';
+    recognizerRef.current?.abort();
   };
 
+  // Session clock; starts after the blind-mode pre-diagnosis and stops once analysis starts or a hard limit runs out
+  useEffect(() => {
+    if (isAnalyzing || awaitingBeforeDiagnosis || isTimeUp) return;
+    const interval = setInterval(() => setElapsedSeconds(prev => prev + 1), 1000);
+    return () => clearInterval(interval);
+  }, [isAnalyzing, awaitingBeforeDiagnosis, isTimeUp]);
+
+  useEffect(() => {
+    onElapsedChange?.(elapsedSeconds);
+  }, [elapsedSeconds]);
+
+  // Hard timer: finish automatically at zero, after any reply in progress has arrived.
+  // Blind sessions get the post-diagnosis form first (without a cancel button) so it is never skipped.
+  useEffect(() => {
+    if (!isTimeUp || isChatting || isAnalyzing || autoFinishedRef.current) return;
+    autoFinishedRef.current = true;
+    cancelSpeech();
+    abortListening();
+    if (isBlind) {
+      setIsDiagnosingAfter(true);
+      return;
+    }
+    onFinishSession();
+  }, [isTimeUp, isChatting, isAnalyzing]);
+
+  // While the reply streams in, the last message is a non-empty model bubble that is still growing
+  const lastMessage = messages[messages.length - 1];
+  const isStreamingReply = isChatting && lastMessage?.role === 'model' && lastMessage.text !== '';
+
+  // A finished reply is read aloud in voice mode; the manager's response time starts once it has been heard
+  useEffect(() => {
+    if (isChatting || lastMessage?.role !== 'model' || !lastMessage.text) return;
+    if (spokenMessageIdRef.current === lastMessage.id) return;
+    if (!isVoiceMode) {
+      replyEndedAtRef.current = Date.now();
+      return;
+    }
+    spokenMessageIdRef.current = lastMessage.id;
+    replyEndedAtRef.current = null;
+    speak(lastMessage.text, scenario, () => {
+      if (replyEndedAtRef.current === null) replyEndedAtRef.current = Date.now();
+    });
+  }, [isChatting, lastMessage?.id, lastMessage?.text, isVoiceMode]);
+
+  // Only hints that were actually on screen count as used
+  useEffect(() => {
+    if (hint && showHints) onHintShown?.(hint.messageId);
+  }, [hint?.messageId, showHints]);
+
+  useEffect(() => () => {
+    cancelSpeech();
+    abortListening();
+  }, []);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -55,16 +145,16 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     scrollToBottom();
   }, [messages, isChatting]);
 
-  // Auto-focus when bot finishes chatting
+  // Auto-focus when bot finishes chatting (or the blind-mode pre-diagnosis is submitted)
   useEffect(() => {
-    if (!isChatting && !isAnalyzing) {
+    if (!isChatting && !isAnalyzing && !awaitingBeforeDiagnosis) {
       // Small timeout to ensure DOM is ready and state is settled
       const timeout = setTimeout(() => {
         textareaRef.current?.focus();
       }, 50);
       return () => clearTimeout(timeout);
     }
-  }, [isChatting, isAnalyzing]);
+  }, [isChatting, isAnalyzing, awaitingBeforeDiagnosis]);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -74,13 +164,100 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   }, [inputText]);
 
+  const handleFinishClick = () => {
+    if (isBlind) {
+      setIsDiagnosingAfter(true);
+      return;
+    }
+    onFinishSession();
+  };
+
+  const takePacing = (inputMode: MessagePacing['inputMode']): MessagePacing => {
+    const now = Date.now();
+    const startedAt = answerStartedAtRef.current ?? now;
+    const pacing: MessagePacing = {
+      inputMode,
+      responseLatencyMs: interruptedRef.current ? 0 : Math.max(0, startedAt - (replyEndedAtRef.current ?? startedAt)),
+      ...(interruptedRef.current ? { interruptedReply: true } : {}),
+    };
+    answerStartedAtRef.current = null;
+    interruptedRef.current = false;
+    return pacing;
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputText.trim() || isChatting || isAnalyzing) return;
-    onSendMessage(inputText);
+    if (!inputText.trim() || isChatting || isAnalyzing || awaitingBeforeDiagnosis || isTimeUp) return;
+    onSendMessage(inputText, takePacing('text'));
     setInputText('');
   };
 
+  // The replaced line is put back in the input so it can be reworded
+  const handleRewind = (message: Message) => {
+    if (!onRewind || isChatting || isAnalyzing || isListening || isTimeUp) return;
+    if (!window.confirm("이 발화부터 다시 시도할까요? 지금까지의 대화는 별도 분기로 보관됩니다.")) return;
+    cancelSpeech();
+    answerStartedAtRef.current = null;
+    interruptedRef.current = false;
+    onRewind(message.id);
+    setInputText(message.text);
+  };
+
+  const handleInputChange = (text: string) => {
+    if (answerStartedAtRef.current === null && text) answerStartedAtRef.current = Date.now();
+    setInputText(text);
+  };
+
+  const toggleVoiceMode = () => {
+    if (isVoiceMode) {
+      cancelSpeech();
+      abortListening();
+      setIsListening(false);
+    }
+    setIsVoiceMode(!isVoiceMode);
+  };
+
+  const handleMicClick = () => {
+    if (isListening) {
+      recognizerRef.current?.stop();
+      return;
+    }
+    if (isChatting || isAnalyzing || awaitingBeforeDiagnosis || isTimeUp) return;
+    // Talking over the employee stops the reply and counts as an interruption
+    if (isSpeaking()) {
+      interruptedRef.current = true;
+      cancelSpeech();
+    }
+    transcriptRef.current = '';
+    listeningAbortedRef.current = false;
+    const recognizer = createRecognizer({
+      onSpeechStart: () => {
+        if (answerStartedAtRef.current === null) answerStartedAtRef.current = Date.now();
+      },
+      onTranscript: (text) => {
+        if (listeningAbortedRef.current) return;
+        transcriptRef.current = text;
+        setInputText(text);
+      },
+      onEnd: () => {
+        setIsListening(false);
+        const text = transcriptRef.current.trim();
+        transcriptRef.current = '';
+        if (!text || listeningAbortedRef.current) return;
+        onSendMessage(text, takePacing('voice'));
+        setInputText('');
+      },
+      onError: (error) => {
+        console.error("Speech recognition error:", error);
+        if (error === 'not-allowed') alert("마이크 권한이 필요합니다. 브라우저 설정에서 마이크 사용을 허용해 주세요.");
+      },
+    });
+    if (!recognizer) return;
+    recognizerRef.current = recognizer;
+    setIsListening(true);
+    recognizer.start();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -98,21 +275,27 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         <div className="flex items-center gap-4">
           <div>
             <h2 className="font-bold text-lg">{scenario.employeeName} ({scenario.employeeRole})</h2>
-            <p className="text-indigo-100 text-xs">{scenario.title}</p>
+            <p className="text-indigo-100 text-xs">{isBlind ? maskLevelReferences(scenario.title) : scenario.title}</p>
           </div>
         </div>
         <div className="flex items-center gap-4">
           <div className="text-center">
-             <div className="text-indigo-200 text-xs uppercase tracking-wide">남은 시간</div>
-             <div className={`font-mono font-bold text-lg w-16 ${remainingTime < 60 ? 'text-red-300 animate-pulse' : ''}`}>
-                {formatTime(remainingTime)}
+             <div className="text-indigo-200 text-xs uppercase tracking-wide">
+               {!isTimed ? '경과 시간' : timer.mode === 'hard' ? '남은 시간 (자동 종료)' : remainingTime === 0 ? '권장 시간 초과' : '남은 시간'}
+             </div>
+             <div className={`font-mono font-bold text-lg ${isTimed && remainingTime < 60 ? 'text-red-300 animate-pulse' : ''}`}>
+                {!isTimed
+                  ? formatClock(elapsedSeconds)
+                  : timer.mode === 'soft' && remainingTime === 0
+                    ? `+${formatClock(elapsedSeconds - timer.durationSeconds)}`
+                    : formatClock(remainingTime)}
              </div>
           </div>
           <Button 
             variant="danger" 
             size="sm" 
-            onClick={onFinishSession} 
-            disabled={isAnalyzing || isChatting}
+            onClick={handleFinishClick} 
+            disabled={isAnalyzing || isChatting || awaitingBeforeDiagnosis || isDiagnosingAfter}
             className="border border-white/20"
           >
             대화 종료 및 분석
@@ -120,23 +303,52 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         </div>
       </div>
 
+      {/* Branches created by rewinding */}
+      {conversationTree && conversationTree.branches.length > 1 && (
+        <div className="bg-indigo-50 border-b border-indigo-100 px-6 py-2 flex flex-wrap items-center gap-2 text-xs shrink-0">
+          <span className="text-indigo-700 font-medium">대화 분기:</span>
+          {conversationTree.branches.map(branch => (
+            <button
+              key={branch.id}
+              type="button"
+              onClick={() => branch.id !== conversationTree.activeBranchId && onSwitchBranch?.(branch.id)}
+              disabled={isChatting || isAnalyzing || isListening}
+              className={`px-2 py-0.5 rounded-full border ${branch.id === conversationTree.activeBranchId ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-indigo-700 border-indigo-200 hover:border-indigo-400'}`}
+            >
+              {branch.label}
+            </button>
+          ))}
+          <span className="text-slate-400 ml-auto">분석은 현재 분기를 기준으로 하고, 다른 분기와 비교합니다.</span>
+        </div>
+      )}
+
+      <div className="flex-1 flex min-h-0">
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto p-6 bg-slate-50 space-y-6">
         {/* Scenario Context Box */}
         <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-4 mb-8 text-sm text-indigo-900 mx-auto max-w-2xl text-center shadow-sm">
           <p className="font-semibold mb-1">상황 설정</p>
-          {scenario.description}
+          {isBlind ? maskLevelReferences(scenario.description) : scenario.description}
+          {scenario.persona && (
+            <p className="mt-2 text-xs text-indigo-700">{scenario.employeeName} · {summarizePersona(scenario.persona)}</p>
+          )}
           <div className="mt-2 text-xs bg-indigo-100 inline-block px-2 py-1 rounded">
-            Target Level: <strong>{scenario.developmentLevel}</strong>
+            {isBlind
+              ? <>블라인드 모드 · 발달 단계를 직접 진단하세요{beforeDiagnosis && ` (사전 진단: ${beforeDiagnosis.level} / ${beforeDiagnosis.style})`}</>
+              : scenario.goals?.length
+                ? <>Target Level: {scenario.goals.map((goal, idx) => (
+                    <React.Fragment key={goal.id}>{idx > 0 && ' · '}{goal.title} <strong>{goal.developmentLevel}</strong></React.Fragment>
+                  ))}</>
+                : <>Target Level: <strong>{scenario.developmentLevel}</strong></>}
           </div>
         </div>
 
-        {messages.map((msg) => (
+        {messages.filter(msg => msg.text !== '').map((msg) => (
           <div 
             key={msg.id} 
             className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
           >
-            <div className={`flex max-w-[80%] ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'} items-start gap-3`}>
+            <div className={`group flex max-w-[80%] ${msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'} items-start gap-3`}>
               
               {/* Avatar */}
               <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 text-xs font-bold shadow-sm ${
@@ -154,12 +366,26 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   : 'bg-white text-slate-800 border border-slate-200 rounded-tl-none'
               }`}>
                 {msg.text}
+                {isStreamingReply && msg.id === lastMessage.id && (
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-slate-400 animate-pulse"></span>
+                )}
               </div>
+
+              {msg.role === 'user' && onRewind && !isChatting && !isAnalyzing && (
+                <button
+                  type="button"
+                  onClick={() => handleRewind(msg)}
+                  className="self-center shrink-0 text-xs text-slate-400 hover:text-indigo-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  title="이 발화부터 다르게 다시 해보기"
+                >
+                  ↺ 다시 하기
+                </button>
+              )}
             </div>
           </div>
         ))}
         
-        {isChatting && (
+        {isChatting && !isStreamingReply && (
           <div className="flex justify-start">
              <div className="flex items-center gap-2 bg-white px-4 py-3 rounded-2xl rounded-tl-none border border-slate-200 ml-11">
                 <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></div>
@@ -169,6 +395,31 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
         )}
 
+        {awaitingBeforeDiagnosis && onDiagnoseBefore && (
+          <DiagnosisForm
+            title="사전 진단"
+            description={`상황 설명과 ${scenario.employeeName}님의 첫 마디를 보고, 대화를 시작하기 전에 발달 단계와 사용할 스타일을 선택하세요.`}
+            submitLabel="대화 시작"
+            onSubmit={onDiagnoseBefore}
+          />
+        )}
+
+        {isDiagnosingAfter && !isAnalyzing && (
+          <DiagnosisForm
+            title="사후 진단"
+            description={isTimeUp
+              ? "제한 시간이 끝났습니다. 분석 전에 팀원의 발달 단계와 적절한 리더십 스타일을 다시 판단해 주세요."
+              : "대화를 마친 지금, 팀원의 발달 단계와 적절한 리더십 스타일을 다시 판단해 주세요."}
+            submitLabel="진단 제출 및 분석"
+            initial={beforeDiagnosis ?? undefined}
+            onSubmit={(diagnosis) => {
+              setIsDiagnosingAfter(false);
+              onFinishSession(diagnosis);
+            }}
+            onCancel={isTimeUp ? undefined : () => setIsDiagnosingAfter(false)}
+          />
+        )}
+
         {isAnalyzing && (
            <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 backdrop-blur-sm">
               <div className="bg-white p-8 rounded-2xl shadow-2xl flex flex-col items-center max-w-sm text-center">
@@ -180,6 +431,10 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         )}
         <div ref={messagesEndRef} />
       </div>
+      {practiceMode && showHints && (
+        <CoachingPanel scenario={scenario} messages={messages} hint={hint} onHide={() => setShowHints(false)} />
+      )}
+      </div>
 
       {/* Input Area */}
       <div className="p-4 bg-white border-t border-slate-200 shrink-0">
@@ -187,18 +442,32 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <textarea
             ref={textareaRef}
             value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
+            onChange={(e) => handleInputChange(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder={isChatting ? "상대방이 입력 중입니다..." : `${userName}님, 답변을 입력하세요...`}
+            placeholder={awaitingBeforeDiagnosis ? "사전 진단을 먼저 선택하세요" : isTimeUp ? "제한 시간이 끝났습니다" : isChatting ? "상대방이 입력 중입니다..." : isListening ? "듣고 있습니다..." : `${userName}님, 답변을 입력하세요...`}
             // Do not disable input while chatting to maintain focus, just block submit logic
-            disabled={isAnalyzing}
+            disabled={isAnalyzing || awaitingBeforeDiagnosis || isTimeUp}
             className="w-full pl-4 pr-4 py-3 bg-slate-100 border-0 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:bg-white transition-all resize-none max-h-32 text-slate-800 placeholder-slate-400 disabled:opacity-50"
             rows={1}
             autoFocus
           />
+          {isVoiceMode && (
+            <Button
+              type="button"
+              variant={isListening ? 'danger' : 'secondary'}
+              onClick={handleMicClick}
+              disabled={isAnalyzing || isChatting || awaitingBeforeDiagnosis || isTimeUp}
+              title={isListening ? '말하기 끝내기' : '말하기'}
+              className={`rounded-xl h-[48px] w-[48px] !p-0 flex items-center justify-center shrink-0 ${isListening ? 'animate-pulse' : ''}`}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-14 0m7 7v4m-4 0h8m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+              </svg>
+            </Button>
+          )}
           <Button 
             type="submit" 
-            disabled={!inputText.trim() || isAnalyzing || isChatting}
+            disabled={!inputText.trim() || isAnalyzing || isChatting || awaitingBeforeDiagnosis || isTimeUp}
             className="rounded-xl h-[48px] w-[48px] !p-0 flex items-center justify-center shrink-0"
           >
             <svg className="w-5 h-5 translate-x-0.5 -translate-y-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -207,7 +476,21 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </Button>
         </form>
         <p className="text-center text-xs text-slate-400 mt-2">
-           5분 정도 대화를 나눈 후 [대화 종료] 버튼을 눌러 피드백을 확인하세요.
+           {!isTimed
+             ? '충분히 대화를 나눈 후 [대화 종료] 버튼을 눌러 피드백을 확인하세요.'
+             : timer.mode === 'hard'
+               ? `${formatClock(timer.durationSeconds)}이 지나면 대화가 자동으로 종료되고 분석이 시작됩니다.`
+               : `${formatClock(timer.durationSeconds)} 정도 대화를 나눈 후 [대화 종료] 버튼을 눌러 피드백을 확인하세요.`}
+           {practiceMode && !showHints && (
+             <button type="button" onClick={() => setShowHints(true)} className="ml-2 text-indigo-600 hover:text-indigo-800 font-medium">
+               코칭 힌트 보기
+             </button>
+           )}
+           {voiceSupported && (
+             <button type="button" onClick={toggleVoiceMode} className="ml-2 text-indigo-600 hover:text-indigo-800 font-medium">
+               {isVoiceMode ? '음성 모드 끄기' : '음성 모드 켜기'}
+             </button>
+           )}
         </p>
       </div>
     </div>
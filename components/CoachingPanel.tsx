@@ -0,0 +1,61 @@
+import React from 'react';
+import { Message, Scenario, StyleKey } from '../types';
+import { scoreSessionByRules, STYLE_KEYS } from '../services/sliiScoring';
+import { CoachingHint } from '../services/coachingHints';
+
+interface CoachingPanelProps {
+  scenario: Scenario;
+  messages: Message[];
+  hint: CoachingHint | null;
+  onHide: () => void;
+}
+
+// Same bar colors as the S1–S4 distribution in the report
+const STYLE_COLORS: Record<StyleKey, string> = {
+  S1: 'bg-red-500',
+  S2: 'bg-orange-500',
+  S3: 'bg-blue-500',
+  S4: 'bg-green-500',
+};
+
+// Practice-mode side panel: the latest hint and a live S1–S4 gauge of the manager's turns so far
+export const CoachingPanel: React.FC<CoachingPanelProps> = ({ scenario, messages, hint, onHide }) => {
+  const gauge = scoreSessionByRules(scenario.developmentLevel, messages);
+
+  return (
+    <aside className="w-64 shrink-0 border-l border-slate-200 bg-white p-4 overflow-y-auto text-sm">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-bold text-slate-800">코칭 힌트</h3>
+        <button type="button" onClick={onHide} className="text-xs text-slate-400 hover:text-slate-700">숨기기</button>
+      </div>
+
+      {hint ? (
+        <div className={`rounded-lg border p-3 mb-5 ${hint.isOnStyle ? 'border-green-200 bg-green-50 text-green-900' : 'border-amber-200 bg-amber-50 text-amber-900'}`}>
+          {hint.text}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400 mb-5">첫 발화를 보내면 힌트가 표시됩니다.</p>
+      )}
+
+      <div className="text-xs font-medium text-slate-600 mb-2">지금까지의 스타일</div>
+      <div className="space-y-2">
+        {STYLE_KEYS.map(style => {
+          const value = gauge.turns.length > 0 ? gauge.styleScore[style] : 0;
+          return (
+            <div key={style}>
+              <div className="flex justify-between text-xs text-slate-500 mb-0.5">
+                <span className={hint?.neededStyle === style ? 'font-bold text-slate-800' : ''}>
+                  {style}{hint?.neededStyle === style && ' · 필요'}
+                </span>
+                <span>{value}%</span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className={`h-full ${STYLE_COLORS[style]} transition-all`} style={{ width: `${value}%` }}></div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { ActionItemStatus, TrackedActionItem } from '../types';
+import { ActionItemEntry, ACTION_STATUS_LABELS, isOverdue } from '../services/actionItems';
+
+interface CommitmentsPanelProps {
+  entries: ActionItemEntry[]; // The participant's unfinished items
+  onUpdate: (recordId: string, itemId: string, patch: Partial<Pick<TrackedActionItem, 'status' | 'progress' | 'progressNote'>>) => void;
+}
+
+// "My commitments" check-in for returning participants on the INTRO screen
+export const CommitmentsPanel: React.FC<CommitmentsPanelProps> = ({ entries, onUpdate }) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-xl border border-slate-100 max-w-2xl mx-auto mt-6 text-left">
+      <h3 className="font-bold text-slate-800 mb-1">나의 실행 약속 (My Commitments)</h3>
+      <p className="text-xs text-slate-500 mb-4">지난 세션에서 세운 실행 계획입니다. 진행 상황을 업데이트해 주세요.</p>
+      <ul className="space-y-3">
+        {entries.map(({ record, item }) => {
+          const overdue = isOverdue(item);
+          return (
+            <li key={item.id} className={`p-4 rounded-lg border ${overdue ? 'border-red-200 bg-red-50/50' : 'border-slate-200'}`}>
+              <div className="flex justify-between items-start gap-3">
+                <div className="min-w-0">
+                  <div className="font-medium text-slate-900 text-sm">{item.task}</div>
+                  <div className="text-xs text-slate-500 mt-1">측정: {item.metric}</div>
+                  <div className={`text-xs mt-1 ${overdue ? 'text-red-600 font-bold' : 'text-slate-400'}`}>
+                    {item.dueDate ? `마감 ${item.dueDate}` : item.deadline}
+                    {overdue && ' · 기한 초과'}
+                    <span className="text-slate-400 font-normal"> · {record.scenarioTitle}</span>
+                  </div>
+                </div>
+                <select
+                  value={item.status}
+                  onChange={(e) => onUpdate(record.id, item.id, {
+                    status: e.target.value as ActionItemStatus,
+                    ...(e.target.value === 'done' ? { progress: 100 } : {})
+                  })}
+                  className="px-2 py-1 border border-slate-300 rounded text-xs shrink-0"
+                >
+                  {(Object.keys(ACTION_STATUS_LABELS) as ActionItemStatus[]).map(status => (
+                    <option key={status} value={status}>{ACTION_STATUS_LABELS[status]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-3 mt-3">
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={10}
+                  value={item.progress}
+                  onChange={(e) => {
+                    const progress = parseInt(e.target.value, 10);
+                    onUpdate(record.id, item.id, { progress, ...(item.status === 'open' && progress > 0 ? { status: 'in_progress' } : {}) });
+                  }}
+                  className="flex-1 accent-indigo-600"
+                />
+                <span className="text-xs font-bold text-indigo-600 w-10 text-right">{item.progress}%</span>
+              </div>
+              <input
+                type="text"
+                defaultValue={item.progressNote || ''}
+                onBlur={(e) => {
+                  if (e.target.value !== (item.progressNote || '')) {
+                    onUpdate(record.id, item.id, { progressNote: e.target.value });
+                  }
+                }}
+                placeholder="측정 결과 메모 (예: 재질문 5회 → 2회)"
+                className="w-full mt-2 px-3 py-1.5 border border-slate-200 rounded text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
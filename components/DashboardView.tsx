@@ -1,31 +1,71 @@
 
 
-import React, { useState, useMemo } from 'react';
-import { SessionRecord, TeamAnalysisResult } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { SessionRecord, TeamAnalysisResult, AdminSession, TrainingProgram, LibraryScenario } from '../types';
 import { Button } from './Button';
+import { AdminAccountsPanel } from './AdminAccountsPanel';
+import { ScenarioLibraryPanel } from './ScenarioLibraryPanel';
+import { ProgramPanel } from './ProgramPanel';
+import { RubricPanel } from './RubricPanel';
+import { ProgramProgressGrid } from './ProgramProgressGrid';
 import { generateTeamAnalysis } from '../services/geminiService';
+import { isApiStorageEnabled, saveTeamReportToServer } from '../services/apiClient';
+import { listPrograms } from '../services/programStore';
+import { listLibraryScenarios } from '../services/scenarioLibrary';
+import { ParticipantRef } from '../services/participantProfile';
+import { collectOpenActionItems, isOverdue, ACTION_STATUS_LABELS } from '../services/actionItems';
+import { compareWithRuleScore } from '../services/sliiScoring';
+import { summarizeDiagnosisByLevel } from '../services/selfDiagnosis';
+import { isHintedSession } from '../services/coachingHints';
+import { formatClock, summarizeEfficiency } from '../services/sessionTiming';
 
 interface DashboardViewProps {
   records: SessionRecord[];
+  adminSession: AdminSession;
   onRestore: (id: string | string[]) => void;
   onDeleteForever: (id: string | string[]) => void;
   onMoveToTrash: (id: string | string[]) => void;
   onBackToIntro: () => void;
+  onLogout: () => void;
   onViewDetail: (record: SessionRecord) => void;
+  onViewProfile: (participant: ParticipantRef) => void;
 }
 
 export const DashboardView: React.FC<DashboardViewProps> = ({
   records,
+  adminSession,
   onRestore,
   onDeleteForever,
   onMoveToTrash,
   onBackToIntro,
-  onViewDetail
+  onLogout,
+  onViewDetail,
+  onViewProfile
 }) => {
   const [view, setView] = useState<'active' | 'trash'>('active');
   const [isGenerating, setIsGenerating] = useState(false);
   const [teamReport, setTeamReport] = useState<TeamAnalysisResult | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showAccounts, setShowAccounts] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showPrograms, setShowPrograms] = useState(false);
+  const [showRubrics, setShowRubrics] = useState(false);
+  const [programs, setPrograms] = useState<TrainingProgram[]>([]);
+  const [library, setLibrary] = useState<LibraryScenario[]>([]);
+
+  const loadPrograms = async () => {
+    try {
+      const [loadedPrograms, loadedLibrary] = await Promise.all([listPrograms(), listLibraryScenarios()]);
+      setPrograms(loadedPrograms);
+      setLibrary(loadedLibrary);
+    } catch (error) {
+      console.error("Failed to load programs", error);
+    }
+  };
+
+  useEffect(() => {
+    loadPrograms();
+  }, []);
   
   // Sorting state
   const [sortConfig, setSortConfig] = useState<{ key: keyof SessionRecord; direction: 'asc' | 'desc' } | null>(null);
@@ -33,9 +73,17 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
   const displayedRecords = records.filter(r => view === 'active' ? !r.isDeleted : r.isDeleted);
   const activeRecords = records.filter(r => !r.isDeleted);
   
-  const avgScore = activeRecords.length > 0 
-    ? Math.round(activeRecords.reduce((acc, curr) => acc + curr.score, 0) / activeRecords.length) 
+  const overdueItems = collectOpenActionItems(activeRecords).filter(({ item }) => isOverdue(item));
+  const diagnosisSummary = summarizeDiagnosisByLevel(activeRecords);
+
+  // Practice sessions with hints on screen are scored apart so they don't inflate the team average
+  const unhintedRecords = activeRecords.filter(r => !isHintedSession(r));
+  const hintedRecords = activeRecords.filter(isHintedSession);
+  const averageOf = (list: SessionRecord[]) => list.length > 0
+    ? Math.round(list.reduce((acc, curr) => acc + curr.score, 0) / list.length)
     : 0;
+  const avgScore = averageOf(unhintedRecords);
+  const efficiencySummary = summarizeEfficiency(unhintedRecords);
 
   // Sorting Logic
   const sortedRecords = useMemo(() => {
@@ -127,8 +175,8 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
   };
 
   const handleGenerateReport = async () => {
-    // Logic: Use selected records if available, otherwise use all active records
-    let recordsToAnalyze = activeRecords;
+    // Logic: Use selected records if available, otherwise all active records played without hints
+    let recordsToAnalyze = unhintedRecords;
     
     if (selectedIds.size > 0) {
       recordsToAnalyze = activeRecords.filter(r => selectedIds.has(r.id));
@@ -143,6 +191,10 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
     try {
       const result = await generateTeamAnalysis(recordsToAnalyze);
       setTeamReport(result);
+      // Keep a shared history of team reports when running against the self-hosted API
+      if (isApiStorageEnabled()) {
+        saveTeamReportToServer(result, recordsToAnalyze.map(r => r.id)).catch(e => console.error("Failed to save team report", e));
+      }
     } catch (error) {
       alert("리포트 생성 중 오류가 발생했습니다.");
     } finally {
@@ -214,10 +266,42 @@ ${teamReport.commonWeaknesses.map(w => `- ${w}`).join('\n')}
   return (
     <div className="max-w-6xl mx-auto p-6 relative">
        <div className="flex justify-between items-center mb-8">
-          <h1 className="text-3xl font-bold text-slate-900">팀 코칭 대시보드</h1>
-          <Button variant="outline" onClick={onBackToIntro}>메인으로 돌아가기</Button>
+          <div>
+             <h1 className="text-3xl font-bold text-slate-900">팀 코칭 대시보드</h1>
+             <p className="text-sm text-slate-500 mt-1">{adminSession.displayName}님으로 로그인됨</p>
+          </div>
+          <div className="flex gap-2">
+             <Button variant="outline" onClick={() => setShowPrograms(true)}>교육 프로그램</Button>
+             <Button variant="outline" onClick={() => setShowLibrary(true)}>시나리오 라이브러리</Button>
+             <Button variant="outline" onClick={() => setShowRubrics(true)}>평가 루브릭</Button>
+             <Button variant="outline" onClick={() => setShowAccounts(true)}>계정 관리</Button>
+             <Button variant="outline" onClick={onBackToIntro}>메인으로 돌아가기</Button>
+             <Button variant="secondary" onClick={onLogout}>로그아웃</Button>
+          </div>
        </div>
 
+       {showAccounts && (
+         <AdminAccountsPanel session={adminSession} onClose={() => setShowAccounts(false)} />
+       )}
+
+       {showLibrary && (
+         <ScenarioLibraryPanel session={adminSession} onClose={() => { setShowLibrary(false); loadPrograms(); }} />
+       )}
+
+       {showRubrics && (
+         <RubricPanel session={adminSession} onClose={() => setShowRubrics(false)} />
+       )}
+
+       {showPrograms && (
+         <ProgramPanel
+           session={adminSession}
+           programs={programs}
+           library={library}
+           onChanged={loadPrograms}
+           onClose={() => setShowPrograms(false)}
+         />
+       )}
+
        {/* Stats Cards */}
        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
@@ -229,6 +313,11 @@ ${teamReport.commonWeaknesses.map(w => `- ${w}`).join('\n')}
              <div className={`text-3xl font-bold mt-2 ${avgScore >= 80 ? 'text-green-600' : avgScore >= 50 ? 'text-yellow-600' : 'text-slate-600'}`}>
                {avgScore}점
              </div>
+             {hintedRecords.length > 0 && (
+               <div className="text-xs text-slate-400 mt-1">
+                 힌트 사용 {hintedRecords.length}건 제외 · 해당 세션 평균 {averageOf(hintedRecords)}점
+               </div>
+             )}
           </div>
           <div className="bg-indigo-50 p-6 rounded-xl border border-indigo-100 flex flex-col items-center justify-center text-center hover:bg-indigo-100 transition-colors cursor-pointer" onClick={handleGenerateReport}>
              {isGenerating ? (
@@ -266,6 +355,84 @@ ${teamReport.commonWeaknesses.map(w => `- ${w}`).join('\n')}
           </div>
        </div>
 
+       {efficiencySummary && (
+         <div className="bg-white rounded-xl shadow-sm border border-slate-200 px-6 py-4 mb-8 flex flex-wrap gap-x-8 gap-y-2 text-sm">
+           <span className="font-bold text-slate-800">대화 효율</span>
+           <span className="text-slate-600">평균 대화 시간 <strong>{formatClock(efficiencySummary.averageElapsedSeconds)}</strong></span>
+           <span className="text-slate-600">평균 발화 <strong>{efficiencySummary.averageTurns}턴</strong></span>
+           <span className="text-slate-600">평균 응답 <strong>{efficiencySummary.averageLatencyMs === null ? '-' : `${Math.round(efficiencySummary.averageLatencyMs / 1000)}초`}</strong></span>
+           <span className={efficiencySummary.timedOut > 0 ? 'text-red-600' : 'text-slate-600'}>시간 초과 종료 <strong>{efficiencySummary.timedOut}건</strong></span>
+           <span className="text-xs text-slate-400 self-center">시간 기록이 있는 {efficiencySummary.sessions}건 기준</span>
+         </div>
+       )}
+
+       <ProgramProgressGrid
+         programs={programs.filter(p => !p.isArchived)}
+         library={library}
+         records={records}
+         onViewDetail={onViewDetail}
+       />
+
+       {/* Blind-mode diagnosis accuracy per actual level */}
+       {diagnosisSummary.length > 0 && (
+         <div className="bg-white rounded-xl shadow-sm border border-slate-200 mb-8 overflow-hidden">
+           <div className="px-6 py-4 border-b border-slate-200">
+             <h3 className="font-bold text-slate-800">발달 단계 진단 정확도 (블라인드 세션)</h3>
+           </div>
+           <table className="w-full text-sm">
+             <thead className="bg-slate-50 text-slate-500 text-xs">
+               <tr>
+                 <th className="px-6 py-3 text-left font-medium">실제 단계</th>
+                 <th className="px-6 py-3 text-right font-medium">세션</th>
+                 <th className="px-6 py-3 text-right font-medium">사전 진단 정답률</th>
+                 <th className="px-6 py-3 text-right font-medium">사후 진단 정답률</th>
+                 <th className="px-6 py-3 text-right font-medium">평균 진단 점수</th>
+               </tr>
+             </thead>
+             <tbody className="divide-y divide-slate-100">
+               {diagnosisSummary.map(row => (
+                 <tr key={row.level}>
+                   <td className="px-6 py-3 font-bold text-slate-800">{row.level}</td>
+                   <td className="px-6 py-3 text-right text-slate-600">{row.sessions}건</td>
+                   <td className="px-6 py-3 text-right">{row.beforeRate === null ? '-' : `${row.beforeRate}%`}</td>
+                   <td className="px-6 py-3 text-right">{row.afterRate === null ? '-' : `${row.afterRate}%`}</td>
+                   <td className="px-6 py-3 text-right font-bold text-indigo-600">{row.averageScore}점</td>
+                 </tr>
+               ))}
+             </tbody>
+           </table>
+         </div>
+       )}
+
+       {/* Overdue action items */}
+       {overdueItems.length > 0 && (
+         <div className="bg-white rounded-xl shadow-sm border border-red-200 mb-8 overflow-hidden">
+           <div className="px-6 py-4 border-b border-red-100 bg-red-50">
+             <h3 className="font-bold text-red-800">기한 초과 실행 계획 ({overdueItems.length}건)</h3>
+           </div>
+           <ul className="divide-y divide-slate-100 text-sm max-h-72 overflow-y-auto">
+             {overdueItems.map(({ record, item }) => (
+               <li key={item.id} className="px-6 py-3 flex items-center justify-between gap-4">
+                 <div className="min-w-0">
+                   <button
+                     onClick={() => onViewProfile({ userName: record.userName, companyName: record.companyName })}
+                     className="font-medium text-slate-900 hover:text-indigo-600 hover:underline"
+                   >
+                     {record.userName}
+                   </button>
+                   <span className="text-slate-400 ml-2 text-xs">{record.companyName || '-'}</span>
+                   <div className="text-slate-600 truncate">{item.task}</div>
+                 </div>
+                 <div className="text-right shrink-0 text-xs">
+                   <div className="font-bold text-red-600">마감 {item.dueDate}</div>
+                   <div className="text-slate-500">{ACTION_STATUS_LABELS[item.status]} · {item.progress}%</div>
+                 </div>
+               </li>
+             ))}
+           </ul>
+         </div>
+       )}
+
        {/* Bulk Actions Bar */}
        {selectedIds.size > 0 && (
          <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-3 mb-4 flex items-center justify-between animate-fade-in-up">
@@ -464,7 +631,15 @@ ${teamReport.commonWeaknesses.map(w => `- ${w}`).join('\n')}
                          </td>
                          <td className="px-6 py-4 text-slate-600 font-medium">{record.companyName || '-'}</td>
                          <td className="px-6 py-4">{new Date(record.date).toLocaleDateString()}</td>
-                         <td className="px-6 py-4 font-medium text-slate-900">{record.userName}</td>
+                         <td className="px-6 py-4 font-medium text-slate-900">
+                            <button
+                              onClick={() => onViewProfile({ userName: record.userName, companyName: record.companyName })}
+                              className="hover:text-indigo-600 hover:underline"
+                              title="참여자 프로필 보기"
+                            >
+                              {record.userName}
+                            </button>
+                         </td>
                          <td className="px-6 py-4 truncate max-w-[200px]" title={record.scenarioTitle}>{record.scenarioTitle}</td>
                          <td className="px-6 py-4">
                             <span className={`inline-flex px-2 py-1 rounded text-xs font-bold ${
@@ -473,6 +648,15 @@ ${teamReport.commonWeaknesses.map(w => `- ${w}`).join('\n')}
                             }`}>
                                {record.score}
                             </span>
+                            {record.result.confidence && (
+                               <span className="ml-1 text-xs text-slate-400" title={`${record.result.confidence.sampleCount}회 평가: ${record.result.confidence.scores.join(', ')}`}>± {record.result.confidence.scoreMargin}</span>
+                            )}
+                            {isHintedSession(record) && (
+                               <span className="ml-2 text-[10px] font-bold bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded" title={`코칭 힌트 ${record.coachingHints!.shownTurns}회 표시`}>힌트</span>
+                            )}
+                            {record.result.ruleBasedScore && compareWithRuleScore(record.result, record.result.ruleBasedScore).isFlagged && (
+                               <span className="ml-2 text-amber-500" title={`규칙 기반 점수 ${record.result.ruleBasedScore.score}점과 차이가 큽니다`}>⚠</span>
+                            )}
                          </td>
                          <td className="px-6 py-4 text-right space-x-2 whitespace-nowrap">
                             {view === 'active' ? (
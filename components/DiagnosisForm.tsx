@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { DevelopmentLevel, SelfDiagnosis, StyleKey } from '../types';
+import { Button } from './Button';
+import { STYLE_KEYS } from '../services/sliiScoring';
+
+interface DiagnosisFormProps {
+  title: string;
+  description: string;
+  submitLabel: string;
+  initial?: SelfDiagnosis; // Pre-fills the after-chat form with the earlier answer
+  onSubmit: (diagnosis: SelfDiagnosis) => void;
+  onCancel?: () => void;
+}
+
+const LEVEL_OPTIONS: Record<DevelopmentLevel, string> = {
+  [DevelopmentLevel.D1]: '열정적인 초심자',
+  [DevelopmentLevel.D2]: '좌절한 학습자',
+  [DevelopmentLevel.D3]: '소극적인 수행자',
+  [DevelopmentLevel.D4]: '자주적 성취자',
+};
+
+const STYLE_OPTIONS: Record<StyleKey, string> = {
+  S1: '지시형',
+  S2: '코칭형',
+  S3: '지원형',
+  S4: '위임형',
+};
+
+// Blind-mode self-diagnosis: the development level the participant sees and the style they will use
+export const DiagnosisForm: React.FC<DiagnosisFormProps> = ({ title, description, submitLabel, initial, onSubmit, onCancel }) => {
+  const [level, setLevel] = useState<DevelopmentLevel | null>(initial?.level ?? null);
+  const [style, setStyle] = useState<StyleKey | null>(initial?.style ?? null);
+
+  const optionClass = (selected: boolean) =>
+    `px-3 py-2 rounded-lg border text-sm text-left transition-colors ${selected ? 'border-indigo-500 bg-indigo-50 text-indigo-800 font-bold' : 'border-slate-200 hover:border-indigo-300 text-slate-700'}`;
+
+  return (
+    <div className="bg-white border border-indigo-200 rounded-xl p-5 shadow-sm max-w-2xl mx-auto text-left">
+      <h3 className="font-bold text-slate-800">{title}</h3>
+      <p className="text-xs text-slate-500 mt-1 mb-4">{description}</p>
+
+      <div className="text-xs font-medium text-slate-600 mb-2">팀원의 발달 단계</div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+        {Object.values(DevelopmentLevel).map(option => (
+          <button key={option} type="button" onClick={() => setLevel(option)} className={optionClass(level === option)}>
+            <div>{option}</div>
+            <div className="text-[11px] font-normal text-slate-500">{LEVEL_OPTIONS[option]}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="text-xs font-medium text-slate-600 mb-2">사용할 리더십 스타일</div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-5">
+        {STYLE_KEYS.map(option => (
+          <button key={option} type="button" onClick={() => setStyle(option)} className={optionClass(style === option)}>
+            <div>{option}</div>
+            <div className="text-[11px] font-normal text-slate-500">{STYLE_OPTIONS[option]}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && <Button type="button" variant="outline" size="sm" onClick={onCancel}>취소</Button>}
+        <Button type="button" size="sm" disabled={!level || !style} onClick={() => level && style && onSubmit({ level, style })}>
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,13 @@
 
 import React from 'react';
-import { AnalysisResult, Scenario } from '../types';
+import { AnalysisResult, DiagnosisCheck, Scenario } from '../types';
 import { Button } from './Button';
+import { compareWithRuleScore, getTurnClassifications, SLII_LEVELS } from '../services/sliiScoring';
+import { BehaviorChips } from './BehaviorChips';
+import { RUBRIC_CRITERIA, RUBRIC_LEVELS } from '../services/rubrics';
+import { CONCERN_REVEAL_TURNS } from '../services/employeePersona';
+import { formatSeconds } from '../services/conversationPacing';
+import { formatClock, TIMER_MODE_LABELS } from '../services/sessionTiming';
 
 interface FeedbackViewProps {
   result: AnalysisResult;
@@ -9,6 +15,8 @@ interface FeedbackViewProps {
   onNewScenario: () => void;
   userName?: string;
   onGoToDashboard: () => void;
+  focusedMessageId?: string | null; // Message highlighted in the side transcript
+  onFocusMessage?: (messageId: string) => void;
 }
 
 export const FeedbackView: React.FC<FeedbackViewProps> = ({ 
@@ -16,7 +24,9 @@ export const FeedbackView: React.FC<FeedbackViewProps> = ({
   scenario, 
   onNewScenario,
   userName,
-  onGoToDashboard
+  onGoToDashboard,
+  focusedMessageId,
+  onFocusMessage
 }) => {
   const scoreColor = result.score >= 80 ? 'text-green-600' : result.score >= 50 ? 'text-yellow-600' : 'text-red-600';
 
@@ -33,6 +43,27 @@ export const FeedbackView: React.FC<FeedbackViewProps> = ({
     S4: styles.includes('S4') ? 50 : 0 
   };
 
+  // Rule-based baseline (services/sliiScoring) and whether it disagrees enough with the LLM to flag
+  const ruleScore = result.ruleBasedScore;
+  const behaviorByMessage = new Map(getTurnClassifications(result).map(b => [b.messageId, b]));
+  const disagreement = ruleScore ? compareWithRuleScore(result, ruleScore) : null;
+  const confidence = result.confidence;
+  const runsDisagreeOnMatch = !!confidence && confidence.matchVotes > 0 && confidence.matchVotes < confidence.sampleCount;
+  const scoreText = confidence ? `${result.score} ± ${confidence.scoreMargin}` : `${result.score}`;
+  const diagnosisAccuracy = result.diagnosisAccuracy;
+  const adaptation = result.adaptation;
+  const goalResults = result.goalResults;
+  const concernDiscovery = result.concernDiscovery;
+  const pacing = result.pacing;
+  const branches = result.branchComparison;
+  const efficiency = result.efficiency;
+  const averageLatencyMs = efficiency && efficiency.timing.turnLatenciesMs.length > 0
+    ? efficiency.timing.turnLatenciesMs.reduce((acc, l) => acc + l, 0) / efficiency.timing.turnLatenciesMs.length
+    : null;
+  const finalFollowerState = adaptation?.trajectory[adaptation.trajectory.length - 1];
+  const breakdown = result.rubricBreakdown;
+  const breakdownWeight = breakdown ? breakdown.criteria.reduce((acc, c) => acc + c.weight, 0) : 0;
+
   const handleDownloadPDF = () => {
     const element = document.getElementById('report-content');
     if (window.html2pdf) {
@@ -78,11 +109,30 @@ export const FeedbackView: React.FC<FeedbackViewProps> = ({
 진단 일자: ${new Date().toLocaleDateString()}
 
 --------------------------------------------------
-🏆 종합 점수: ${result.score}점
+🏆 종합 점수: ${scoreText}점${ruleScore ? ` (규칙 기반 ${ruleScore.score}점)` : ''}
 📊 주요 리더십 스타일: ${styles.join(', ')} (${result.isMatch ? '적절함' : '부적절함'})
 --------------------------------------------------
 
-[리더십 스타일 분포]
+${diagnosisAccuracy ? `[진단 정확도] ${diagnosisAccuracy.score}점 (실제 ${diagnosisAccuracy.actualLevel} → ${diagnosisAccuracy.neededStyle})
+${diagnosisAccuracy.before ? `사전 진단: ${diagnosisAccuracy.before.level} / ${diagnosisAccuracy.before.style}\n` : ''}${diagnosisAccuracy.after ? `사후 진단: ${diagnosisAccuracy.after.level} / ${diagnosisAccuracy.after.style}\n` : ''}
+` : ''}${concernDiscovery ? `[숨은 고민] ${concernDiscovery.uncovered ? '발견함' : '발견하지 못함'} - ${concernDiscovery.concern}
+${concernDiscovery.evidence}
+
+` : ''}${efficiency ? `[대화 효율] ${formatClock(efficiency.timing.elapsedSeconds)} · ${efficiency.timing.turnCount}턴${efficiency.timing.timedOut ? ' · 시간 초과로 종료' : ''}
+${efficiency.feedback}
+
+` : ''}${pacing ? `[음성 대화 속도] 평균 응답 ${formatSeconds(pacing.averageLatencyMs)} · 최장 ${formatSeconds(pacing.longestLatencyMs)} · 말 끊기 ${pacing.interruptions}회
+
+` : ''}${branches ? `[대화 분기 비교]
+${branches.map(b => `${b.label}${b.isFinal ? ' (최종)' : ` (Turn ${b.divergedAtTurn}부터: "${b.openingLine}")`}: ${b.score}점 · ${b.primaryStyle} · ${b.isMatch ? '적절함' : '부적절함'}`).join('\n')}
+
+` : ''}${goalResults ? `[목표별 스타일 매칭]
+${goalResults.map(g => `${g.title} (${g.developmentLevel} → ${g.neededStyle}): ${g.styleUsed || '대화 없음'} · ${g.score}점 ${g.isMatch ? '적절함' : '부적절함'}`).join('\n')}
+
+` : ''}${breakdown ? `[평가 기준별 점수 - ${breakdown.rubricName}]
+${breakdown.criteria.map(c => `${RUBRIC_CRITERIA[c.key].label} (${c.weight}%): ${c.score}점 · ${RUBRIC_LEVELS[c.level].label}`).join('\n')}
+
+` : ''}[리더십 스타일 분포]
 S1 (Directing): ${styleScore.S1}%
 S2 (Coaching): ${styleScore.S2}%
 S3 (Supporting): ${styleScore.S3}%
@@ -170,13 +220,286 @@ ${result.actionPlan.map((plan, idx) => `${idx + 1}. ${plan.task} (기한: ${plan
            </div>
            <div className="flex flex-col items-center justify-center border-t md:border-t-0 md:border-l border-slate-200 pt-4 md:pt-0 pl-0 md:pl-6">
               <div className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">Total Score</div>
-              <div className={`text-6xl font-black ${scoreColor}`}>{result.score}</div>
+              <div className={`text-6xl font-black ${scoreColor}`}>
+                {result.score}
+                {confidence && <span className="text-2xl font-bold text-slate-400"> ± {confidence.scoreMargin}</span>}
+              </div>
+              {confidence && (
+                <div className="text-[11px] text-slate-400 mt-1" title={`각 회차 점수: ${confidence.scores.join(', ')}`}>
+                  {confidence.sampleCount}회 평가의 중앙값
+                </div>
+              )}
               <div className="mt-2 text-sm font-medium text-slate-600">
                 Style Match: <span className={result.isMatch ? "text-green-600" : "text-red-500"}>{result.isMatch ? "SUCCESS" : "MISMATCH"}</span>
               </div>
+              {ruleScore && (
+                <div className="mt-3 pt-3 border-t border-slate-200 w-full text-center" title="턴별 지시/지원 행동을 규칙으로 분류해 계산한 점수">
+                  <div className="text-[11px] text-slate-500 font-bold uppercase tracking-wider">Rule-based</div>
+                  <div className="text-2xl font-black text-slate-700">{ruleScore.score}</div>
+                  <div className="text-xs text-slate-500">
+                    {ruleScore.primaryStyle} 주도 · <span className={ruleScore.isMatch ? "text-green-600" : "text-red-500"}>{ruleScore.isMatch ? "MATCH" : "MISMATCH"}</span>
+                  </div>
+                </div>
+              )}
            </div>
         </div>
 
+        {runsDisagreeOnMatch && confidence && (
+          <div className="mb-6 p-4 rounded-xl border border-amber-300 bg-amber-50 text-sm text-amber-900 print:hidden">
+            <span className="font-bold">⚠ 반복 평가 결과가 엇갈립니다.</span>{' '}
+            {confidence.sampleCount}회 중 {confidence.matchVotes}회만 스타일 매칭으로 판정했습니다
+            (점수 {confidence.scores.join(' / ')}). 퍼실리테이터의 검토를 권장합니다.
+          </div>
+        )}
+
+        {disagreement?.isFlagged && ruleScore && (
+          <div className="mb-10 p-4 rounded-xl border border-amber-300 bg-amber-50 text-sm text-amber-900 print:hidden">
+            <span className="font-bold">⚠ AI 평가와 규칙 기반 평가가 크게 다릅니다.</span>{' '}
+            AI {result.score}점 / 규칙 기반 {ruleScore.score}점
+            {disagreement.matchDiffers && ` · 스타일 매칭 판정 불일치 (규칙 기반: ${ruleScore.primaryStyle} 주도, ${scenario.developmentLevel}에는 ${ruleScore.expectedStyle} 필요)`}
+            . 퍼실리테이터의 검토를 권장합니다.
+          </div>
+        )}
+
+        {/* Blind-mode self-diagnosis vs the actual level */}
+        {diagnosisAccuracy && (
+          <section className="mb-10 break-inside-avoid">
+            <h2 className="text-lg font-bold text-slate-900 mb-4 uppercase tracking-wide border-b border-slate-200 pb-2">
+                진단 정확도 <span className="text-sm font-normal text-slate-400 normal-case">(블라인드 모드)</span>
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div className="bg-slate-50 rounded-lg p-4 border border-slate-200 text-center">
+                <div className="text-xs text-slate-500 font-bold uppercase mb-1">실제</div>
+                <div className="text-2xl font-black text-slate-800">{diagnosisAccuracy.actualLevel} · {diagnosisAccuracy.neededStyle}</div>
+                <div className="text-xs text-slate-500 mt-1">진단 점수 <span className="font-bold text-indigo-600">{diagnosisAccuracy.score}점</span></div>
+              </div>
+              {([['사전 진단', diagnosisAccuracy.before], ['사후 진단', diagnosisAccuracy.after]] as [string, DiagnosisCheck | undefined][]).map(([label, check]) => (
+                <div key={label} className="bg-white rounded-lg p-4 border border-slate-200 text-center">
+                  <div className="text-xs text-slate-500 font-bold uppercase mb-1">{label}</div>
+                  {check ? (
+                    <div className="text-2xl font-black">
+                      <span className={check.levelCorrect ? 'text-green-600' : 'text-red-500'}>{check.level}</span>
+                      <span className="text-slate-300"> · </span>
+                      <span className={check.styleCorrect ? 'text-green-600' : 'text-red-500'}>{check.style}</span>
+                    </div>
+                  ) : (
+                    <div className="text-slate-400 py-2">미입력</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Follower level changes during the conversation and how the leader followed them */}
+        {adaptation && finalFollowerState && (
+          <section className="mb-10 break-inside-avoid">
+            <h2 className="text-lg font-bold text-slate-900 mb-4 uppercase tracking-wide border-b border-slate-200 pb-2 flex justify-between items-end">
+                <span>팀원 발달 단계 변화</span>
+                {adaptation.score !== null && <span className="text-sm font-bold text-indigo-600 normal-case">적응 점수 {adaptation.score}점</span>}
+            </h2>
+            {adaptation.segments.length === 0 ? (
+              <p className="text-sm text-slate-400">대화 내용이 없습니다.</p>
+            ) : (
+              <div className="flex flex-wrap items-stretch gap-2 text-sm">
+                {adaptation.segments.map((segment, idx) => (
+                  <React.Fragment key={`${segment.level}-${segment.startTurn}`}>
+                    {idx > 0 && <span className="self-center text-slate-400">→</span>}
+                    <div className="bg-slate-50 border border-slate-200 rounded-lg px-4 py-3 min-w-[150px]">
+                      <div className="font-bold text-slate-800">{segment.level} <span className="text-xs font-normal text-slate-500">Turn {segment.startTurn}–{segment.endTurn}</span></div>
+                      <div className="text-xs text-slate-500 mt-1">필요 스타일 {segment.neededStyle} · 일치 {segment.matchRate}%</div>
+                      {idx > 0 && (
+                        <div className={`text-xs mt-1 font-bold ${segment.turnsToAdapt === null ? 'text-red-500' : 'text-green-600'}`}>
+                          {segment.turnsToAdapt === null ? '스타일 전환 없음' : `${segment.turnsToAdapt}턴 만에 전환`}
+                        </div>
+                      )}
+                    </div>
+                  </React.Fragment>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-slate-400 mt-3">
+              {adaptation.score === null && '이번 대화에서는 단계 변화가 일어나지 않았습니다. '}
+              대화 종료 시 팀원 상태: 역량 {finalFollowerState.competence}/10 · 의지 {finalFollowerState.commitment}/10
+            </p>
+          </section>
+        )}
+
+        {/* Rewound sessions: the final conversation next to the alternatives the participant tried */}
+        {branches && branches.length > 1 && (
+          <section className="mb-10 break-inside-avoid">
+            <h2 className="text-lg font-bold text-slate-900 mb-4 uppercase tracking-wide border-b border-slate-200 pb-2">대화 분기 비교</h2>
+            <div className="grid md:grid-cols-2 gap-4">
+              {branches.map(branch => (
+                <div key={branch.branchId} className={`rounded-lg border p-4 ${branch.isFinal ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200 bg-slate-50'}`}>
+                  <div className="flex justify-between items-start gap-3">
+                    <div>
+                      <div className="font-bold text-slate-800">{branch.label}{branch.isFinal && <span className="ml-2 text-xs text-indigo-600">최종 · 이 리포트의 기준</span>}</div>
+                      <div className="text-xs text-slate-500 mt-1">
+                        {branch.primaryStyle} 주도 · <span className={branch.isMatch ? 'text-green-600 font-bold' : 'text-red-500 font-bold'}>{branch.isMatch ? '스타일 일치' : '스타일 불일치'}</span>
+                      </div>
+                    </div>
+                    <div className="text-2xl font-black text-slate-800 shrink-0">{branch.score}점</div>
+                  </div>
+                  {!branch.isFinal && branch.divergedAtTurn !== null && (
+                    <p className="text-sm text-slate-700 mt-3 bg-white border border-slate-200 rounded p-2">
+                      <span className="text-xs text-slate-400 block mb-0.5">Turn {branch.divergedAtTurn}에서 이렇게 말했다면</span>
+                      "{branch.openingLine}"
+                    </p>
+                  )}
+                  <p className="text-xs text-slate-600 mt-3 line-clamp-4">{branch.summaryFeedback}</p>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Whether the leader surfaced the employee's hidden concern */}
+        {concernDiscovery && (
+          <section className="mb-10 break-inside-avoid">
+            <h2 className="text-lg font-bold text-slate-900 mb-4 uppercase tracking-wide border-b border-slate-200 pb-2 flex justify-between items-end">
+                <span>숨은 고민</span>
+                <span className={`text-sm font-bold normal-case ${concernDiscovery.uncovered ? 'text-green-600' : 'text-red-500'}`}>
+                  {concernDiscovery.uncovered ? '발견함' : '발견하지 못함'}
+                </span>
+            </h2>
+            <div className={`rounded-lg border p-4 ${concernDiscovery.uncovered ? 'border-green-200 bg-green-50/50' : 'border-slate-200 bg-slate-50'}`}>
+              <p className="text-sm font-medium text-slate-800">"{concernDiscovery.concern}"</p>
+              <p className="text-sm text-slate-600 mt-2">{concernDiscovery.evidence}</p>
+              {concernDiscovery.earnedAtTurn === null && (
+                <p className="text-xs text-slate-400 mt-2">팀원의 의견을 묻거나 공감하는 발화가 {CONCERN_REVEAL_TURNS}회 이상 있어야 팀원이 속마음을 이야기합니다.</p>
+              )}
+            </div>
+          </section>
+        )}
+
+        {/* Time spent and pace of the conversation */}
+        {efficiency && (
+          <section className="mb-10 break-inside-avoid">
+            <h2 className="text-lg font-bold text-slate-900 mb-4 uppercase tracking-wide border-b border-slate-200 pb-2 flex justify-between items-end">
+                <span>대화 효율</span>
+                <span className="text-sm font-normal text-slate-400 normal-case">{TIMER_MODE_LABELS[efficiency.timing.timerMode]}</span>
+            </h2>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+                <div className="text-xs text-slate-500">대화 시간</div>
+                <div className={`text-2xl font-black mt-1 ${efficiency.timing.timedOut ? 'text-red-500' : 'text-slate-800'}`}>
+                  {formatClock(efficiency.timing.elapsedSeconds)}
+                  {efficiency.timing.durationSeconds && <span className="text-sm font-normal text-slate-400"> / {formatClock(efficiency.timing.durationSeconds)}</span>}
+                </div>
+              </div>
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+                <div className="text-xs text-slate-500">발화 수</div>
+                <div className="text-2xl font-black text-slate-800 mt-1">{efficiency.timing.turnCount}턴</div>
+              </div>
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+                <div className="text-xs text-slate-500">평균 응답 시간</div>
+                <div className="text-2xl font-black text-slate-800 mt-1">{averageLatencyMs === null ? '-' : formatSeconds(averageLatencyMs)}</div>
+              </div>
+            </div>
+            <p className="text-sm text-slate-700 mt-3">
+              {efficiency.timing.timedOut && <span className="font-bold text-red-500">제한 시간으로 자동 종료됨 · </span>}
+              {efficiency.feedback}
+            </p>
+          </section>
+        )}
+
+        {/* Response time and interruptions in voice sessions */}
+        {pacing && (
+          <section className="mb-10 break-inside-avoid">
+            <h2 className="text-lg font-bold text-slate-900 mb-4 uppercase tracking-wide border-b border-slate-200 pb-2">음성 대화 속도</h2>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+                <div className="text-xs text-slate-500">평균 응답 시간</div>
+                <div className="text-2xl font-black text-slate-800 mt-1">{formatSeconds(pacing.averageLatencyMs)}</div>
+              </div>
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+                <div className="text-xs text-slate-500">가장 긴 침묵</div>
+                <div className="text-2xl font-black text-slate-800 mt-1">{formatSeconds(pacing.longestLatencyMs)}</div>
+              </div>
+              <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+                <div className="text-xs text-slate-500">말 끊기</div>
+                <div className={`text-2xl font-black mt-1 ${pacing.interruptions > 0 ? 'text-red-500' : 'text-slate-800'}`}>{pacing.interruptions}회</div>
+              </div>
+            </div>
+            <p className="text-xs text-slate-400 mt-3">음성으로 답한 {pacing.voiceTurns}개 발화 기준입니다. 팀원의 말이 끝나기 전에 말을 시작하면 말 끊기로 기록됩니다.</p>
+          </section>
+        )}
+
+        {/* Per-goal style match in multi-goal scenarios */}
+        {goalResults && goalResults.length > 0 && (
+          <section className="mb-10 break-inside-avoid">
+            <h2 className="text-lg font-bold text-slate-900 mb-4 uppercase tracking-wide border-b border-slate-200 pb-2">목표별 분석</h2>
+            <div className="grid md:grid-cols-2 gap-4">
+              {goalResults.map(goal => (
+                <div key={goal.goalId} className={`rounded-lg border p-4 ${goal.isMatch ? 'border-green-200 bg-green-50/50' : 'border-slate-200 bg-slate-50'}`}>
+                  <div className="flex justify-between items-start gap-3">
+                    <div className="font-bold text-slate-800">{goal.title}</div>
+                    <div className={`text-lg font-black shrink-0 ${goal.isMatch ? 'text-green-600' : 'text-slate-600'}`}>{goal.score}점</div>
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    {goal.developmentLevel} · 필요 스타일 {goal.neededStyle} · 사용 스타일{' '}
+                    <span className={`font-bold ${goal.isMatch ? 'text-green-600' : 'text-red-500'}`}>{goal.styleUsed || '대화 없음'}</span>
+                  </div>
+                  {goal.feedback && <p className="text-sm text-slate-700 mt-2">{goal.feedback}</p>}
+                  {goal.messageIds.length > 0 && onFocusMessage && (
+                    <button
+                      onClick={() => onFocusMessage(goal.messageIds[0])}
+                      className="text-xs text-indigo-600 hover:text-indigo-800 font-medium mt-2 print:hidden"
+                      data-html2canvas-ignore="true"
+                    >
+                      관련 대화 {goal.messageIds.length}건 보기 &rarr;
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Rubric breakdown: how the total score was built */}
+        {breakdown && (
+          <section className="mb-10 break-inside-avoid">
+            <h2 className="text-lg font-bold text-slate-900 mb-4 uppercase tracking-wide border-b border-slate-200 pb-2">
+                평가 기준별 점수 <span className="text-sm font-normal text-slate-400 normal-case">({breakdown.rubricName})</span>
+            </h2>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500">
+                <tr>
+                  <th className="text-left font-medium pb-2">기준</th>
+                  <th className="text-right font-medium pb-2">가중치</th>
+                  <th className="text-right font-medium pb-2">점수</th>
+                  <th className="text-right font-medium pb-2">반영 점수</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {breakdown.criteria.map(criterion => (
+                  <tr key={criterion.key} className="align-top">
+                    <td className="py-3 pr-4">
+                      <div className="font-bold text-slate-800">
+                        {RUBRIC_CRITERIA[criterion.key].label}
+                        <span className="ml-2 text-[11px] font-bold px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700">{RUBRIC_LEVELS[criterion.level].label}</span>
+                      </div>
+                      {criterion.rationale && <p className="text-xs text-slate-500 mt-1 leading-snug">{criterion.rationale}</p>}
+                    </td>
+                    <td className="py-3 text-right text-slate-500">{criterion.weight}%</td>
+                    <td className="py-3 text-right font-bold text-slate-800">{criterion.score}</td>
+                    <td className="py-3 text-right text-slate-600">
+                      {breakdownWeight > 0 ? ((criterion.score * criterion.weight) / breakdownWeight).toFixed(1) : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t-2 border-slate-200">
+                  <td colSpan={3} className="pt-3 text-right font-bold text-slate-700">종합 점수</td>
+                  <td className={`pt-3 text-right font-black ${scoreColor}`}>{result.score}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </section>
+        )}
+
         {/* Overall Feedback */}
         <section className="mb-10">
           <h2 className="text-lg font-bold text-slate-900 mb-3 uppercase tracking-wide border-b border-slate-200 pb-2">
@@ -204,6 +527,9 @@ ${result.actionPlan.map((plan, idx) => `${idx + 1}. ${plan.task} (기한: ${plan
                         </div>
                         <div className="text-xs text-slate-500 mb-3 relative z-10 h-8">
                            {getStyleDescription(styleKey)}
+                           {ruleScore && (
+                              <span className="block text-[11px] text-slate-400">규칙 기반 {ruleScore.styleScore[styleKey as keyof typeof ruleScore.styleScore]}%</span>
+                           )}
                         </div>
                         
                         {/* Progress Bar Container */}
@@ -227,14 +553,30 @@ ${result.actionPlan.map((plan, idx) => `${idx + 1}. ${plan.task} (기한: ${plan
           </h2>
           <div className="space-y-6">
             {result.turnByTurnAnalysis.map((turn, idx) => (
-              <div key={idx} className="bg-slate-50 rounded-lg overflow-hidden border border-slate-200 break-inside-avoid shadow-sm">
+              <div 
+                key={idx} 
+                id={`turn-${idx}`}
+                className={`bg-slate-50 rounded-lg overflow-hidden border break-inside-avoid shadow-sm ${turn.messageId && turn.messageId === focusedMessageId ? 'border-amber-400 ring-2 ring-amber-200' : 'border-slate-200'}`}
+              >
                 <div className="bg-slate-100 px-4 py-2 border-b border-slate-200 flex justify-between items-center">
                    <span className="font-bold text-slate-700 text-sm">Turn #{idx + 1}</span>
+                   {turn.messageId && onFocusMessage && (
+                     <button 
+                       onClick={() => onFocusMessage(turn.messageId!)} 
+                       className="text-xs text-indigo-600 hover:text-indigo-800 font-medium print:hidden"
+                       data-html2canvas-ignore="true"
+                     >
+                       대화에서 보기 &rarr;
+                     </button>
+                   )}
                 </div>
                 <div className="p-4 grid gap-4">
                    <div>
                       <span className="text-xs text-slate-400 font-bold uppercase block mb-1">Manager (User)</span>
                       <p className="text-slate-800 font-medium text-sm bg-white p-2 rounded border border-slate-100">"{turn.userMessageSnippet}"</p>
+                      {turn.messageId && behaviorByMessage.has(turn.messageId) && (
+                        <BehaviorChips classification={behaviorByMessage.get(turn.messageId)!} expectedStyle={SLII_LEVELS[scenario.developmentLevel]?.needs} />
+                      )}
                    </div>
                    <div className="flex gap-4">
                       <div className="flex-1">
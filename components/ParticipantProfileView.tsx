@@ -0,0 +1,227 @@
+import React from 'react';
+import { DevelopmentLevel, SessionRecord } from '../types';
+import { Button } from './Button';
+import { buildParticipantProfile, LevelTrendPoint, ParticipantRef } from '../services/participantProfile';
+import { ACTION_STATUS_LABELS, isOverdue } from '../services/actionItems';
+
+interface ParticipantProfileViewProps {
+  participant: ParticipantRef;
+  records: SessionRecord[];
+  onBack: () => void;
+  onViewDetail: (record: SessionRecord) => void;
+  backLabel?: string; // Participants viewing their own profile go back to the start screen
+}
+
+const LEVEL_LABELS: Record<DevelopmentLevel, string> = {
+  [DevelopmentLevel.D1]: 'D1: 열정적인 초심자',
+  [DevelopmentLevel.D2]: 'D2: 좌절한 학습자',
+  [DevelopmentLevel.D3]: 'D3: 소극적인 수행자',
+  [DevelopmentLevel.D4]: 'D4: 자주적 성취자',
+};
+
+// SVG stroke colors matching the S1–S4 bar colors used elsewhere (red/orange/blue/green-500)
+const SERIES = [
+  { key: 'score', label: '점수', color: '#4f46e5', width: 3 },
+  { key: 'S1', label: 'S1', color: '#ef4444', width: 1.5 },
+  { key: 'S2', label: 'S2', color: '#f97316', width: 1.5 },
+  { key: 'S3', label: 'S3', color: '#3b82f6', width: 1.5 },
+  { key: 'S4', label: 'S4', color: '#22c55e', width: 1.5 },
+] as const;
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 16;
+
+// Score and S1–S4 usage (all 0–100) over the participant's sessions at one level
+const TrendChart: React.FC<{ points: LevelTrendPoint[] }> = ({ points }) => {
+  const x = (idx: number) => points.length === 1
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + (idx * (CHART_WIDTH - CHART_PADDING * 2)) / (points.length - 1);
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - (value / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const valueOf = (point: LevelTrendPoint, key: typeof SERIES[number]['key']) =>
+    key === 'score' ? point.score : point.styleScore?.[key];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40">
+        {[0, 50, 100].map(v => (
+          <g key={v}>
+            <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(v)} y2={y(v)} stroke="#e2e8f0" strokeDasharray="4 4" />
+            <text x={2} y={y(v) + 3} fontSize="9" fill="#94a3b8">{v}</text>
+          </g>
+        ))}
+        {SERIES.map(series => {
+          const coords = points
+            .map((p, idx) => ({ idx, value: valueOf(p, series.key) }))
+            .filter((c): c is { idx: number; value: number } => typeof c.value === 'number');
+          if (coords.length === 0) return null;
+          return (
+            <g key={series.key}>
+              <polyline
+                points={coords.map(c => `${x(c.idx)},${y(c.value)}`).join(' ')}
+                fill="none"
+                stroke={series.color}
+                strokeWidth={series.width}
+                opacity={series.key === 'score' ? 1 : 0.7}
+              />
+              {coords.map(c => (
+                <circle key={c.idx} cx={x(c.idx)} cy={y(c.value)} r={series.key === 'score' ? 3.5 : 2} fill={series.color} />
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-3 text-[11px] text-slate-500 mt-1">
+        {SERIES.map(series => (
+          <span key={series.key} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-1 rounded" style={{ backgroundColor: series.color }}></span>
+            {series.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const ParticipantProfileView: React.FC<ParticipantProfileViewProps> = ({ participant, records, onBack, onViewDetail, backLabel = '대시보드로 돌아가기' }) => {
+  const profile = buildParticipantProfile(records, participant);
+  const recordById = new Map(profile.records.map(r => [r.id, r]));
+
+  const totalSessions = profile.records.length;
+  const scoredSessions = profile.scoredRecords.length;
+  const averageScore = scoredSessions > 0
+    ? Math.round(profile.scoredRecords.reduce((acc, r) => acc + r.score, 0) / scoredSessions)
+    : 0;
+  const matchRate = scoredSessions > 0
+    ? Math.round((profile.scoredRecords.filter(r => r.result.isMatch).length / scoredSessions) * 100)
+    : 0;
+
+  const getScoreColor = (score: number) =>
+    score >= 80 ? 'text-green-600' : score >= 50 ? 'text-yellow-600' : 'text-slate-600';
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">{participant.userName}</h2>
+          <p className="text-slate-500">{participant.companyName || '회사 미입력'} · 참여자 성장 프로필</p>
+        </div>
+        <Button variant="outline" onClick={onBack}>{backLabel}</Button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="text-sm text-slate-500 font-medium uppercase">총 세션</div>
+          <div className="text-3xl font-bold text-slate-900 mt-2">{totalSessions}건</div>
+          {profile.hintedRecords.length > 0 && (
+            <div className="text-xs text-slate-400 mt-1">힌트 사용 {profile.hintedRecords.length}건은 점수·추이에서 제외</div>
+          )}
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="text-sm text-slate-500 font-medium uppercase">평균 점수</div>
+          <div className={`text-3xl font-bold mt-2 ${getScoreColor(averageScore)}`}>{averageScore}점</div>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="text-sm text-slate-500 font-medium uppercase">스타일 매칭률</div>
+          <div className="text-3xl font-bold text-indigo-600 mt-2">{matchRate}%</div>
+        </div>
+      </div>
+
+      {/* Per-level trends */}
+      <div className="grid md:grid-cols-2 gap-6 mb-8">
+        {profile.levels.map(summary => (
+          <div key={summary.level} className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+            <div className="flex justify-between items-start mb-4">
+              <h3 className="font-bold text-slate-800">{LEVEL_LABELS[summary.level]}</h3>
+              <div className="text-right text-xs text-slate-500 space-y-0.5">
+                <div>평균 <span className={`font-bold ${getScoreColor(summary.averageScore)}`}>{summary.averageScore}점</span></div>
+                <div>매칭률 <span className="font-bold text-indigo-600">{summary.matchRate}%</span></div>
+                {summary.scoreChange !== null && (
+                  <div>
+                    첫 세션 대비{' '}
+                    <span className={`font-bold ${summary.scoreChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {summary.scoreChange >= 0 ? '+' : ''}{summary.scoreChange}점
+                    </span>
+                  </div>
+                )}
+              </div>
+            </div>
+            <TrendChart points={summary.points} />
+            <ul className="mt-4 divide-y divide-slate-100 text-sm">
+              {summary.points.map(point => (
+                <li key={point.recordId} className="py-2 flex justify-between items-center">
+                  <span className="text-slate-500">{new Date(point.date).toLocaleDateString()}</span>
+                  <span className="truncate mx-3 flex-1 text-slate-700">{recordById.get(point.recordId)?.scenarioTitle}</span>
+                  <span className={`text-xs font-bold mr-3 ${point.isMatch ? 'text-green-600' : 'text-slate-400'}`}>
+                    {point.isMatch ? '매칭' : '불일치'}
+                  </span>
+                  <button
+                    onClick={() => {
+                      const record = recordById.get(point.recordId);
+                      if (record) onViewDetail(record);
+                    }}
+                    className={`font-bold hover:underline ${getScoreColor(point.score)}`}
+                  >
+                    {point.score}점
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+        {profile.levels.length === 0 && (
+          <p className="md:col-span-2 text-center text-slate-400 py-12">저장된 세션이 없습니다.</p>
+        )}
+      </div>
+
+      {/* Practice-mode sessions, listed apart from the trends */}
+      {profile.hintedRecords.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-8">
+          <h3 className="font-bold text-slate-800 mb-4">힌트를 본 연습 세션</h3>
+          <ul className="divide-y divide-slate-100 text-sm">
+            {profile.hintedRecords.map(record => (
+              <li key={record.id} className="py-2 flex justify-between items-center">
+                <span className="text-slate-500">{new Date(record.date).toLocaleDateString()}</span>
+                <span className="truncate mx-3 flex-1 text-slate-700">{record.scenarioTitle}</span>
+                <span className="text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded mr-3">힌트</span>
+                <button onClick={() => onViewDetail(record)} className="font-bold text-slate-500 hover:underline">
+                  {record.score}점
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Action items from past sessions */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h3 className="font-bold text-slate-800 mb-4">실행 계획 (Action Plan)</h3>
+        {profile.openActionItems.length === 0 ? (
+          <p className="text-sm text-slate-400">진행 중인 실행 계획이 없습니다.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100 text-sm">
+            {profile.openActionItems.map(({ recordId, date, scenarioTitle, item }, idx) => (
+              <li key={`${recordId}-${idx}`} className="py-3">
+                <div className="flex justify-between gap-3">
+                  <span className="font-medium text-slate-900">{item.task}</span>
+                  <span className="text-xs font-bold text-indigo-600 shrink-0">{ACTION_STATUS_LABELS[item.status]} · {item.progress}%</span>
+                </div>
+                <div className="text-xs text-slate-500 mt-1">
+                  기한: {item.dueDate || item.deadline}
+                  {isOverdue(item) && <span className="text-red-600 font-bold"> (기한 초과)</span>}
+                  {' '}· 측정: {item.metric}
+                  {item.progressNote && ` · ${item.progressNote}`}
+                </div>
+                <div className="text-[11px] text-slate-400 mt-1">
+                  {new Date(date).toLocaleDateString()} · {scenarioTitle}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { AdminSession, DevelopmentLevel, LibraryScenario, ProgramStep, TrainingProgram } from '../types';
+import { Button } from './Button';
+import { TimerSettingsField } from './TimerSettingsField';
+import { saveProgram, setProgramArchived, getCoveredLevels, ProgramDraft } from '../services/programStore';
+
+interface ProgramPanelProps {
+  session: AdminSession;
+  programs: TrainingProgram[];
+  library: LibraryScenario[];
+  onChanged: () => void; // Parent reloads programs after a save
+  onClose: () => void;
+}
+
+const emptyDraft = (): ProgramDraft => ({ name: '', companyName: '', steps: [], participants: [] });
+
+export const ProgramPanel: React.FC<ProgramPanelProps> = ({ session, programs, library, onChanged, onClose }) => {
+  const [draft, setDraft] = useState<ProgramDraft | null>(null); // null = list view
+  const [participantsText, setParticipantsText] = useState('');
+  const [scenarioToAdd, setScenarioToAdd] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeLibrary = library.filter(s => !s.isArchived);
+  const findScenario = (id: string) => library.find(s => s.id === id);
+
+  const openEditor = (program?: TrainingProgram) => {
+    setDraft(program
+      ? { id: program.id, name: program.name, companyName: program.companyName, steps: program.steps, participants: program.participants, blindMode: program.blindMode, timer: program.timer }
+      : emptyDraft());
+    setParticipantsText(program ? program.participants.join('\n') : '');
+    setScenarioToAdd('');
+  };
+
+  const updateSteps = (update: (steps: ProgramStep[]) => ProgramStep[]) => {
+    setDraft(prev => prev ? { ...prev, steps: update(prev.steps) } : prev);
+  };
+
+  const handleAddStep = () => {
+    if (!scenarioToAdd) return;
+    updateSteps(steps => [...steps, { scenarioId: scenarioToAdd }]);
+    setScenarioToAdd('');
+  };
+
+  const handleMoveStep = (index: number, offset: number) => {
+    updateSteps(steps => {
+      const target = index + offset;
+      if (target < 0 || target >= steps.length) return steps;
+      const next = [...steps];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const covered = getCoveredLevels(draft.steps, library);
+    const missing = Object.values(DevelopmentLevel).filter(level => !covered.has(level));
+    if (missing.length > 0 && !window.confirm(`${missing.join(', ')} 단계 시나리오가 없습니다. 그대로 저장하시겠습니까?`)) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveProgram({ ...draft, participants: participantsText.split('\n') }, session.displayName);
+      setDraft(null);
+      onChanged();
+    } catch (error: any) {
+      alert(error.message || String(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleArchive = async (program: TrainingProgram) => {
+    if (!program.isArchived && !window.confirm(`"${program.name}" 프로그램을 종료하시겠습니까? 참여자에게 더 이상 표시되지 않습니다.`)) return;
+    try {
+      await setProgramArchived(program, !program.isArchived);
+      onChanged();
+    } catch (error: any) {
+      alert(error.message || String(error));
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm";
+  const labelClass = "block text-xs font-medium text-slate-600 mb-1";
+  const coveredLevels = draft ? getCoveredLevels(draft.steps, library) : new Set<DevelopmentLevel>();
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center sticky top-0 bg-white z-10">
+          <h2 className="text-xl font-bold text-slate-900">교육 프로그램 관리</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {draft ? (
+          <form onSubmit={handleSave} className="p-6 space-y-5">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>프로그램 이름</label>
+                <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="예: 2025 신임 팀장 과정 1기" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>회사명 (코호트)</label>
+                <input type="text" value={draft.companyName} onChange={(e) => setDraft({ ...draft, companyName: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+
+            {/* Ordered scenarios */}
+            <section>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="font-bold text-slate-800 text-sm">과제 순서</h3>
+                <div className="flex gap-1">
+                  {Object.values(DevelopmentLevel).map(level => (
+                    <span key={level} className={`text-[11px] font-bold px-2 py-0.5 rounded ${coveredLevels.has(level) ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-400'}`}>
+                      {level}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              {draft.steps.length === 0 && (
+                <p className="text-sm text-slate-400 py-3">라이브러리에서 시나리오를 추가하세요.</p>
+              )}
+              <ol className="space-y-2 mb-3">
+                {draft.steps.map((step, idx) => {
+                  const scenario = findScenario(step.scenarioId);
+                  return (
+                    <li key={`${step.scenarioId}-${idx}`} className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm">
+                      <span className="font-bold text-slate-400 w-6">{idx + 1}.</span>
+                      <span className="flex-1 min-w-0 truncate">
+                        {scenario ? `[${scenario.developmentLevel}] ${scenario.title}` : '(삭제된 시나리오)'}
+                      </span>
+                      <input
+                        type="date"
+                        value={step.dueDate || ''}
+                        onChange={(e) => updateSteps(steps => steps.map((s, i) => i === idx ? { ...s, dueDate: e.target.value || undefined } : s))}
+                        className="px-2 py-1 border border-slate-300 rounded text-xs"
+                        title="마감일"
+                      />
+                      <button type="button" onClick={() => handleMoveStep(idx, -1)} className="text-slate-400 hover:text-slate-700 px-1" title="위로">↑</button>
+                      <button type="button" onClick={() => handleMoveStep(idx, 1)} className="text-slate-400 hover:text-slate-700 px-1" title="아래로">↓</button>
+                      <button type="button" onClick={() => updateSteps(steps => steps.filter((_, i) => i !== idx))} className="text-slate-400 hover:text-red-600 px-1" title="제거">✕</button>
+                    </li>
+                  );
+                })}
+              </ol>
+              <div className="flex gap-2">
+                <select value={scenarioToAdd} onChange={(e) => setScenarioToAdd(e.target.value)} className={inputClass}>
+                  <option value="">시나리오 선택...</option>
+                  {activeLibrary.map(s => <option key={s.id} value={s.id}>[{s.developmentLevel}] {s.title} (v{s.version})</option>)}
+                </select>
+                <Button type="button" size="sm" variant="outline" onClick={handleAddStep} disabled={!scenarioToAdd}>추가</Button>
+              </div>
+            </section>
+
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={!!draft.blindMode} onChange={(e) => setDraft({ ...draft, blindMode: e.target.checked })} />
+              블라인드 진단 모드 (참여자에게 발달 단계를 숨기고 대화 전후로 직접 진단하게 합니다)
+            </label>
+
+            <div>
+              <label className={labelClass}>대화 시간</label>
+              <TimerSettingsField value={draft.timer} inheritLabel="시나리오별 설정 따름" onChange={(timer) => setDraft({ ...draft, timer })} />
+            </div>
+
+            <div>
+              <label className={labelClass}>참여자 명단 (한 줄에 한 명, INTRO 화면에 입력하는 이름과 같아야 합니다)</label>
+              <textarea value={participantsText} onChange={(e) => setParticipantsText(e.target.value)} rows={5} className={inputClass} />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setDraft(null)}>취소</Button>
+              <Button type="submit" size="sm" isLoading={isSaving}>저장</Button>
+            </div>
+          </form>
+        ) : (
+          <div className="p-6">
+            <div className="flex justify-end mb-4">
+              <Button size="sm" onClick={() => openEditor()}>+ 새 프로그램</Button>
+            </div>
+            {programs.length === 0 ? (
+              <p className="text-center text-sm text-slate-400 py-10">등록된 프로그램이 없습니다.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {programs.map(program => (
+                  <li key={program.id} className={`py-3 flex items-center justify-between gap-4 text-sm ${program.isArchived ? 'opacity-60' : ''}`}>
+                    <div className="min-w-0">
+                      <div className="font-medium text-slate-900 truncate">
+                        {program.name}
+                        {program.isArchived && <span className="ml-2 text-xs bg-slate-200 text-slate-600 px-2 py-0.5 rounded">종료됨</span>}
+                      </div>
+                      <div className="text-xs text-slate-500 mt-1">
+                        {program.companyName} · 과제 {program.steps.length}개 · 참여자 {program.participants.length}명
+                      </div>
+                    </div>
+                    <div className="flex gap-3 shrink-0">
+                      <button onClick={() => openEditor(program)} className="text-indigo-600 hover:text-indigo-800 text-xs md:text-sm">수정</button>
+                      <button onClick={() => handleToggleArchive(program)} className="text-slate-400 hover:text-slate-700 text-xs md:text-sm">
+                        {program.isArchived ? '재개' : '종료'}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { LibraryScenario, SessionRecord, TrainingProgram } from '../types';
+import { getStepProgress } from '../services/programStore';
+
+interface ProgramProgressGridProps {
+  programs: TrainingProgram[]; // Active programs only
+  library: LibraryScenario[];
+  records: SessionRecord[];
+  onViewDetail: (record: SessionRecord) => void;
+}
+
+// Cohort progress: one row per invited participant, one column per program step
+export const ProgramProgressGrid: React.FC<ProgramProgressGridProps> = ({ programs, library, records, onViewDetail }) => {
+  const [selectedProgramId, setSelectedProgramId] = useState<string>('');
+
+  if (programs.length === 0) return null;
+
+  const program = programs.find(p => p.id === selectedProgramId) || programs[0];
+  const rows = program.participants.map(name => ({ name, progress: getStepProgress(program, name, library, records) }));
+  const completedCount = rows.reduce((acc, row) => acc + row.progress.filter(p => p.status === 'done').length, 0);
+  const totalCount = rows.length * program.steps.length;
+
+  const getScoreColor = (score: number) =>
+    score >= 80 ? 'bg-green-100 text-green-700' : score >= 50 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700';
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 mb-8 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h3 className="font-bold text-slate-800">코호트 진행 현황</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            {program.companyName} · 완료 {completedCount}/{totalCount}
+            {totalCount > 0 && ` (${Math.round((completedCount / totalCount) * 100)}%)`}
+          </p>
+        </div>
+        <select
+          value={program.id}
+          onChange={(e) => setSelectedProgramId(e.target.value)}
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          {programs.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-500 text-xs">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium">참여자</th>
+              {program.steps.map((step, idx) => {
+                const scenario = library.find(s => s.id === step.scenarioId);
+                return (
+                  <th key={`${step.scenarioId}-${idx}`} className="px-3 py-3 text-center font-medium min-w-[110px]">
+                    <div>{idx + 1}. {scenario?.developmentLevel || '-'}</div>
+                    <div className="font-normal text-[11px] text-slate-400 truncate max-w-[140px] mx-auto" title={scenario?.title}>{scenario?.title || '(삭제됨)'}</div>
+                    {step.dueDate && <div className="font-normal text-[11px] text-slate-400">~{step.dueDate}</div>}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <tr key={row.name}>
+                <td className="px-4 py-3 font-medium text-slate-900 whitespace-nowrap">{row.name}</td>
+                {row.progress.map((cell, idx) => (
+                  <td key={idx} className="px-3 py-3 text-center">
+                    {cell.status === 'done' && cell.record ? (
+                      <button
+                        onClick={() => onViewDetail(cell.record!)}
+                        className={`px-2 py-1 rounded font-bold text-xs ${getScoreColor(cell.record.score)} hover:opacity-80`}
+                        title="상세 보기"
+                      >
+                        {cell.record.score}점
+                      </button>
+                    ) : cell.status === 'overdue' ? (
+                      <span className="text-xs font-bold text-red-600">기한 초과</span>
+                    ) : (
+                      <span className="text-xs text-slate-300">미완료</span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
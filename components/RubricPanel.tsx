@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { AdminSession, Rubric, RubricCriterion, RubricLevel } from '../types';
+import { Button } from './Button';
+import {
+  listRubrics,
+  saveRubric,
+  setRubricArchived,
+  getWeightTotal,
+  RubricDraft,
+  DEFAULT_RUBRIC,
+  RUBRIC_CRITERIA,
+  RUBRIC_LEVELS,
+  RUBRIC_LEVEL_KEYS
+} from '../services/rubrics';
+
+interface RubricPanelProps {
+  session: AdminSession;
+  onClose: () => void;
+}
+
+// New rubrics start from the built-in weights and descriptors
+const emptyDraft = (): RubricDraft => ({ name: '', companyName: '', criteria: DEFAULT_RUBRIC.criteria });
+
+const toDraft = (rubric: Rubric): RubricDraft => ({
+  id: rubric.id,
+  name: rubric.name,
+  companyName: rubric.companyName,
+  criteria: rubric.criteria,
+});
+
+export const RubricPanel: React.FC<RubricPanelProps> = ({ session, onClose }) => {
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [draft, setDraft] = useState<RubricDraft | null>(null); // null = list view
+  const [isSaving, setIsSaving] = useState(false);
+
+  const reload = async () => {
+    try {
+      setRubrics(await listRubrics());
+    } catch (error) {
+      console.error("Failed to load rubrics", error);
+      alert("평가 루브릭을 불러오지 못했습니다.");
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const updateCriterion = (index: number, patch: Partial<RubricCriterion>) => {
+    setDraft(prev => prev ? { ...prev, criteria: prev.criteria.map((c, i) => i === index ? { ...c, ...patch } : c) } : prev);
+  };
+
+  const updateDescriptor = (index: number, level: RubricLevel, text: string) => {
+    setDraft(prev => prev ? {
+      ...prev,
+      criteria: prev.criteria.map((c, i) => i === index ? { ...c, descriptors: { ...c.descriptors, [level]: text } } : c)
+    } : prev);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      await saveRubric(draft, session.displayName);
+      setDraft(null);
+      await reload();
+    } catch (error: any) {
+      alert(error.message || String(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleArchive = async (rubric: Rubric) => {
+    if (!rubric.isArchived && !window.confirm(`"${rubric.name}" 루브릭을 보관하시겠습니까? 이후 세션 평가에 사용되지 않습니다.`)) return;
+    try {
+      await setRubricArchived(rubric, !rubric.isArchived, session.displayName);
+      await reload();
+    } catch (error: any) {
+      alert(error.message || String(error));
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm";
+  const labelClass = "block text-xs font-medium text-slate-600 mb-1";
+  const weightTotal = draft ? getWeightTotal(draft.criteria) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center sticky top-0 bg-white z-10">
+          <h2 className="text-xl font-bold text-slate-900">평가 루브릭</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {draft ? (
+          <form onSubmit={handleSave} className="p-6 space-y-5">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>루브릭 이름</label>
+                <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="예: A사 관리자 과정 기준" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>적용 회사 (비워두면 전체 기본값)</label>
+                <input type="text" value={draft.companyName} onChange={(e) => setDraft({ ...draft, companyName: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+
+            <div className="flex justify-between items-center">
+              <h3 className="font-bold text-slate-800 text-sm">평가 기준</h3>
+              <span className={`text-xs font-bold ${weightTotal === 100 ? 'text-green-600' : 'text-red-600'}`}>가중치 합계 {weightTotal}%</span>
+            </div>
+            {draft.criteria.map((criterion, idx) => (
+              <section key={criterion.key} className="border border-slate-200 rounded-lg p-4 space-y-3">
+                <div className="flex justify-between items-center gap-3">
+                  <div>
+                    <div className="font-bold text-slate-800 text-sm">{RUBRIC_CRITERIA[criterion.key].label}</div>
+                    <div className="text-[11px] text-slate-400">{RUBRIC_CRITERIA[criterion.key].description}</div>
+                  </div>
+                  <label className="flex items-center gap-1 text-xs text-slate-600 shrink-0">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={criterion.weight}
+                      onChange={(e) => updateCriterion(idx, { weight: parseInt(e.target.value, 10) || 0 })}
+                      className="w-16 px-2 py-1 border border-slate-300 rounded text-right"
+                    />
+                    %
+                  </label>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {RUBRIC_LEVEL_KEYS.map(level => (
+                    <div key={level}>
+                      <label className={labelClass}>{RUBRIC_LEVELS[level].label} ({RUBRIC_LEVELS[level].min}점 이상)</label>
+                      <input
+                        type="text"
+                        value={criterion.descriptors[level]}
+                        onChange={(e) => updateDescriptor(idx, level, e.target.value)}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setDraft(null)}>취소</Button>
+              <Button type="submit" size="sm" isLoading={isSaving}>저장</Button>
+            </div>
+          </form>
+        ) : (
+          <div className="p-6">
+            <div className="flex justify-between items-center mb-4">
+              <p className="text-xs text-slate-500">회사별 루브릭이 없으면 기본값 루브릭, 그것도 없으면 내장 기본 루브릭으로 평가합니다.</p>
+              <Button size="sm" onClick={() => setDraft(emptyDraft())}>+ 새 루브릭</Button>
+            </div>
+            {rubrics.length === 0 ? (
+              <p className="text-center text-sm text-slate-400 py-10">등록된 루브릭이 없습니다. 내장 기본 루브릭이 사용됩니다.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {rubrics.map(rubric => (
+                  <li key={rubric.id} className={`py-3 flex items-center justify-between gap-4 text-sm ${rubric.isArchived ? 'opacity-60' : ''}`}>
+                    <div className="min-w-0">
+                      <div className="font-medium text-slate-900 truncate">
+                        {rubric.name}
+                        {rubric.isArchived && <span className="ml-2 text-xs bg-slate-200 text-slate-600 px-2 py-0.5 rounded">보관됨</span>}
+                      </div>
+                      <div className="text-xs text-slate-500 mt-1">
+                        {rubric.companyName || '전체 기본값'} · {rubric.criteria.map(c => `${RUBRIC_CRITERIA[c.key].label} ${c.weight}%`).join(' / ')}
+                        {rubric.updatedBy && ` · 수정: ${rubric.updatedBy}`}
+                      </div>
+                    </div>
+                    <div className="flex gap-3 shrink-0">
+                      <button onClick={() => setDraft(toDraft(rubric))} className="text-indigo-600 hover:text-indigo-800 text-xs md:text-sm">수정</button>
+                      <button onClick={() => handleToggleArchive(rubric)} className="text-slate-400 hover:text-slate-700 text-xs md:text-sm">
+                        {rubric.isArchived ? '복원' : '보관'}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
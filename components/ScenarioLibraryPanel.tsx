@@ -0,0 +1,402 @@
+import React, { useEffect, useState } from 'react';
+import { AdminSession, DevelopmentLevel, EmployeePersona, LevelTransition, LibraryScenario, ScenarioGoal, ScenarioDifficulty, SLIIBehavior, StyleKey } from '../types';
+import { Button } from './Button';
+import { TimerSettingsField } from './TimerSettingsField';
+import {
+  listLibraryScenarios,
+  saveLibraryScenario,
+  setLibraryScenarioArchived,
+  restoreLibraryScenarioVersion,
+  LibraryScenarioDraft,
+  DIFFICULTY_LABELS
+} from '../services/scenarioLibrary';
+import { SLII_BEHAVIORS, STYLE_KEYS } from '../services/sliiScoring';
+
+interface ScenarioLibraryPanelProps {
+  session: AdminSession;
+  onClose: () => void;
+}
+
+const emptyDraft = (): LibraryScenarioDraft => ({
+  title: '',
+  description: '',
+  employeeName: '',
+  employeeRole: '',
+  developmentLevel: DevelopmentLevel.D1,
+  initialMessage: '',
+  industry: '',
+  jobRole: '',
+  difficulty: 'medium',
+});
+
+const toDraft = (scenario: LibraryScenario): LibraryScenarioDraft => ({
+  id: scenario.id,
+  title: scenario.title,
+  description: scenario.description,
+  employeeName: scenario.employeeName,
+  employeeRole: scenario.employeeRole,
+  developmentLevel: scenario.developmentLevel,
+  initialMessage: scenario.initialMessage,
+  industry: scenario.industry,
+  jobRole: scenario.jobRole,
+  difficulty: scenario.difficulty,
+  transitions: scenario.transitions,
+  goals: scenario.goals,
+  persona: scenario.persona,
+  timer: scenario.timer,
+});
+
+export const ScenarioLibraryPanel: React.FC<ScenarioLibraryPanelProps> = ({ session, onClose }) => {
+  const [scenarios, setScenarios] = useState<LibraryScenario[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [draft, setDraft] = useState<LibraryScenarioDraft | null>(null); // null = list view
+  const [isSaving, setIsSaving] = useState(false);
+  const [historyId, setHistoryId] = useState<string | null>(null); // Entry whose earlier versions are shown
+
+  const reload = async () => {
+    try {
+      setScenarios(await listLibraryScenarios());
+    } catch (error) {
+      console.error("Failed to load scenario library", error);
+      alert("시나리오 라이브러리를 불러오지 못했습니다.");
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const updateDraft = <K extends keyof LibraryScenarioDraft>(key: K, value: LibraryScenarioDraft[K]) => {
+    setDraft(prev => prev ? { ...prev, [key]: value } : prev);
+  };
+
+  const updateTransitions = (update: (transitions: LevelTransition[]) => LevelTransition[]) => {
+    setDraft(prev => prev ? { ...prev, transitions: update(prev.transitions || []) } : prev);
+  };
+
+  const patchTransition = (index: number, patch: Partial<LevelTransition>) => {
+    updateTransitions(transitions => transitions.map((t, i) => i === index ? { ...t, ...patch } : t));
+  };
+
+  const updateGoals = (update: (goals: ScenarioGoal[]) => ScenarioGoal[]) => {
+    setDraft(prev => prev ? { ...prev, goals: update(prev.goals || []) } : prev);
+  };
+
+  const patchGoal = (index: number, patch: Partial<ScenarioGoal>) => {
+    updateGoals(goals => goals.map((g, i) => i === index ? { ...g, ...patch } : g));
+  };
+
+  const patchPersona = (patch: Partial<EmployeePersona>) => {
+    setDraft(prev => prev ? { ...prev, persona: { traits: [], communicationStyle: '', tenure: '', ...prev.persona, ...patch } } : prev);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      await saveLibraryScenario(draft, session.displayName);
+      setDraft(null);
+      await reload();
+    } catch (error: any) {
+      alert(error.message || String(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleArchive = async (scenario: LibraryScenario) => {
+    const message = scenario.isArchived
+      ? `"${scenario.title}" 시나리오를 다시 공개하시겠습니까?`
+      : `"${scenario.title}" 시나리오를 보관하시겠습니까? 참여자 목록에서 숨겨집니다.`;
+    if (!window.confirm(message)) return;
+    try {
+      await setLibraryScenarioArchived(scenario, !scenario.isArchived, session.displayName);
+      await reload();
+    } catch (error: any) {
+      alert(error.message || String(error));
+    }
+  };
+
+  const handleRestoreVersion = async (scenario: LibraryScenario, version: number) => {
+    if (!window.confirm(`"${scenario.title}" 시나리오를 v${version} 내용으로 되돌리시겠습니까? 현재 내용은 이력에 남습니다.`)) return;
+    try {
+      await restoreLibraryScenarioVersion(scenario, version, session.displayName);
+      await reload();
+    } catch (error: any) {
+      alert(error.message || String(error));
+    }
+  };
+
+  const visibleScenarios = scenarios.filter(s => showArchived || !s.isArchived);
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm";
+  const labelClass = "block text-xs font-medium text-slate-600 mb-1";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-200 flex justify-between items-center sticky top-0 bg-white z-10">
+          <h2 className="text-xl font-bold text-slate-900">시나리오 라이브러리</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        {draft ? (
+          <form onSubmit={handleSave} className="p-6 space-y-4">
+            <h3 className="font-bold text-slate-800 border-b pb-2">{draft.id ? '시나리오 수정 (새 버전으로 저장)' : '새 시나리오'}</h3>
+            <div>
+              <label className={labelClass}>제목</label>
+              <input type="text" value={draft.title} onChange={(e) => updateDraft('title', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>상황 설명</label>
+              <textarea value={draft.description} onChange={(e) => updateDraft('description', e.target.value)} rows={3} className={inputClass} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>직원 이름</label>
+                <input type="text" value={draft.employeeName} onChange={(e) => updateDraft('employeeName', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>직원 직책</label>
+                <input type="text" value={draft.employeeRole} onChange={(e) => updateDraft('employeeRole', e.target.value)} className={inputClass} />
+              </div>
+            </div>
+            {/* Optional persona; the hidden concern is only shared once the leader asks and listens */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className={labelClass}>성격 (쉼표로 구분)</label>
+                <input
+                  type="text"
+                  defaultValue={draft.persona?.traits.join(', ') || ''}
+                  onBlur={(e) => patchPersona({ traits: e.target.value.split(',').map(t => t.trim()).filter(Boolean) })}
+                  placeholder="예: 꼼꼼함, 내성적"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>말투</label>
+                <input type="text" value={draft.persona?.communicationStyle || ''} onChange={(e) => patchPersona({ communicationStyle: e.target.value })} placeholder="예: 결론보다 걱정을 먼저 말함" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>재직 기간</label>
+                <input type="text" value={draft.persona?.tenure || ''} onChange={(e) => patchPersona({ tenure: e.target.value })} placeholder="예: 입사 3년차, 팀 이동 2개월" className={inputClass} />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>숨은 고민 (참여자에게 비공개, 질문과 경청으로 드러남)</label>
+              <input
+                type="text"
+                value={draft.persona?.hiddenConcern || ''}
+                onChange={(e) => patchPersona({ hiddenConcern: e.target.value || undefined })}
+                placeholder="예: 개인 사정으로 야근이 어려운데 말하지 못하고 있음"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>직원의 첫 대사</label>
+              <textarea value={draft.initialMessage} onChange={(e) => updateDraft('initialMessage', e.target.value)} rows={2} className={inputClass} />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <label className={labelClass}>산업군</label>
+                <input type="text" value={draft.industry} onChange={(e) => updateDraft('industry', e.target.value)} placeholder="예: IT 스타트업" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>직무</label>
+                <input type="text" value={draft.jobRole} onChange={(e) => updateDraft('jobRole', e.target.value)} placeholder="예: 영업" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>발달 단계</label>
+                <select
+                  value={draft.developmentLevel}
+                  onChange={(e) => updateDraft('developmentLevel', e.target.value as DevelopmentLevel)}
+                  disabled={!!draft.goals?.length}
+                  title={draft.goals?.length ? '목표가 있으면 첫 번째 목표의 단계가 대표 단계가 됩니다.' : undefined}
+                  className={inputClass}
+                >
+                  {Object.values(DevelopmentLevel).map(level => <option key={level} value={level}>{level}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>난이도</label>
+                <select value={draft.difficulty} onChange={(e) => updateDraft('difficulty', e.target.value as ScenarioDifficulty)} className={inputClass}>
+                  {(Object.keys(DIFFICULTY_LABELS) as ScenarioDifficulty[]).map(d => <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>)}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>대화 시간</label>
+              <TimerSettingsField value={draft.timer} inheritLabel="기본값 (권장 5분)" onChange={(timer) => updateDraft('timer', timer)} />
+            </div>
+            {/* Optional level transitions triggered by the leader's behavior */}
+            <section>
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-xs font-medium text-slate-600">발달 단계 변화 (선택) · 리더의 행동에 따라 대화 중 팀원의 단계가 바뀝니다</h4>
+                <button
+                  type="button"
+                  onClick={() => updateTransitions(transitions => [...transitions, { from: draft.developmentLevel, to: draft.developmentLevel, triggerStyle: 'S2', turns: 2 }])}
+                  className="text-indigo-600 hover:text-indigo-800 text-xs font-medium"
+                >
+                  + 변화 추가
+                </button>
+              </div>
+              <ul className="space-y-2">
+                {(draft.transitions || []).map((transition, idx) => (
+                  <li key={idx} className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-xs space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <select value={transition.from} onChange={(e) => patchTransition(idx, { from: e.target.value as DevelopmentLevel })} className="px-2 py-1 border border-slate-300 rounded">
+                        {Object.values(DevelopmentLevel).map(level => <option key={level} value={level}>{level}</option>)}
+                      </select>
+                      <span>→</span>
+                      <select value={transition.to} onChange={(e) => patchTransition(idx, { to: e.target.value as DevelopmentLevel })} className="px-2 py-1 border border-slate-300 rounded">
+                        {Object.values(DevelopmentLevel).map(level => <option key={level} value={level}>{level}</option>)}
+                      </select>
+                      <span className="text-slate-500">조건:</span>
+                      <select value={transition.triggerStyle || ''} onChange={(e) => patchTransition(idx, { triggerStyle: (e.target.value || undefined) as StyleKey | undefined })} className="px-2 py-1 border border-slate-300 rounded">
+                        <option value="">모든 스타일</option>
+                        {STYLE_KEYS.map(style => <option key={style} value={style}>{style}</option>)}
+                      </select>
+                      <select value={transition.triggerBehavior || ''} onChange={(e) => patchTransition(idx, { triggerBehavior: (e.target.value || undefined) as SLIIBehavior | undefined })} className="px-2 py-1 border border-slate-300 rounded">
+                        <option value="">행동 무관</option>
+                        {(Object.keys(SLII_BEHAVIORS) as SLIIBehavior[]).map(b => <option key={b} value={b}>{SLII_BEHAVIORS[b].label}</option>)}
+                      </select>
+                      <input
+                        type="number"
+                        min={1}
+                        value={transition.turns}
+                        onChange={(e) => patchTransition(idx, { turns: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                        className="w-14 px-2 py-1 border border-slate-300 rounded text-right"
+                      />
+                      <span className="text-slate-500">턴 연속</span>
+                      <button type="button" onClick={() => updateTransitions(transitions => transitions.filter((_, i) => i !== idx))} className="ml-auto text-slate-400 hover:text-red-600" title="제거">✕</button>
+                    </div>
+                    <input
+                      type="text"
+                      value={transition.note || ''}
+                      onChange={(e) => patchTransition(idx, { note: e.target.value || undefined })}
+                      placeholder="팀원에게 일어난 변화 (예: 방법을 이해하면서 자신감이 생김)"
+                      className={inputClass}
+                    />
+                  </li>
+                ))}
+              </ul>
+            </section>
+            {/* Optional goals, each with its own development level */}
+            <section>
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-xs font-medium text-slate-600">목표별 발달 단계 (선택) · 같은 팀원이 업무마다 다른 단계에 있습니다</h4>
+                <button
+                  type="button"
+                  onClick={() => updateGoals(goals => [...goals, { id: `goal-${Date.now()}`, title: '', developmentLevel: draft.developmentLevel }])}
+                  className="text-indigo-600 hover:text-indigo-800 text-xs font-medium"
+                >
+                  + 목표 추가
+                </button>
+              </div>
+              <ul className="space-y-2">
+                {(draft.goals || []).map((goal, idx) => (
+                  <li key={goal.id} className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-xs space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={goal.title}
+                        onChange={(e) => patchGoal(idx, { title: e.target.value })}
+                        placeholder="목표 또는 업무 (예: 신규 리포팅 툴 도입)"
+                        className={inputClass}
+                      />
+                      <select value={goal.developmentLevel} onChange={(e) => patchGoal(idx, { developmentLevel: e.target.value as DevelopmentLevel })} className="px-2 py-1 border border-slate-300 rounded">
+                        {Object.values(DevelopmentLevel).map(level => <option key={level} value={level}>{level}</option>)}
+                      </select>
+                      <button type="button" onClick={() => updateGoals(goals => goals.filter((_, i) => i !== idx))} className="text-slate-400 hover:text-red-600" title="제거">✕</button>
+                    </div>
+                    <input
+                      type="text"
+                      defaultValue={(goal.keywords || []).join(', ')}
+                      onBlur={(e) => patchGoal(idx, { keywords: e.target.value.split(',').map(k => k.trim()).filter(Boolean) })}
+                      placeholder="대화 키워드, 쉼표로 구분 (예: 리포트, 대시보드). 비워두면 목표 이름의 단어를 사용합니다."
+                      className={inputClass}
+                    />
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setDraft(null)}>취소</Button>
+              <Button type="submit" size="sm" isLoading={isSaving}>저장</Button>
+            </div>
+          </form>
+        ) : (
+          <div className="p-6">
+            <div className="flex justify-between items-center mb-4">
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+                보관된 시나리오 표시
+              </label>
+              <Button size="sm" onClick={() => setDraft(emptyDraft())}>+ 새 시나리오</Button>
+            </div>
+
+            {visibleScenarios.length === 0 ? (
+              <p className="text-center text-sm text-slate-400 py-10">등록된 시나리오가 없습니다.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {visibleScenarios.map(scenario => (
+                  <li key={scenario.id} className={`py-3 text-sm ${scenario.isArchived ? 'opacity-60' : ''}`}>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="font-medium text-slate-900 truncate">
+                          {scenario.title}
+                          <span className="ml-2 text-xs text-slate-400">v{scenario.version}</span>
+                          {scenario.isArchived && <span className="ml-2 text-xs bg-slate-200 text-slate-600 px-2 py-0.5 rounded">보관됨</span>}
+                        </div>
+                        <div className="text-xs text-slate-500 mt-1">
+                          {scenario.developmentLevel} · {DIFFICULTY_LABELS[scenario.difficulty]}
+                          {scenario.industry && ` · ${scenario.industry}`}
+                          {scenario.jobRole && ` · ${scenario.jobRole}`}
+                          {scenario.updatedBy && ` · 수정: ${scenario.updatedBy}`}
+                        </div>
+                      </div>
+                      <div className="flex gap-3 shrink-0">
+                        {!!scenario.versions?.length && (
+                          <button onClick={() => setHistoryId(historyId === scenario.id ? null : scenario.id)} className="text-slate-500 hover:text-slate-800 text-xs md:text-sm">
+                            이력 ({scenario.versions.length})
+                          </button>
+                        )}
+                        <button onClick={() => setDraft(toDraft(scenario))} className="text-indigo-600 hover:text-indigo-800 text-xs md:text-sm">수정</button>
+                        <button onClick={() => handleToggleArchive(scenario)} className="text-slate-400 hover:text-slate-700 text-xs md:text-sm">
+                          {scenario.isArchived ? '복원' : '보관'}
+                        </button>
+                      </div>
+                    </div>
+                    {historyId === scenario.id && scenario.versions && (
+                      <ul className="mt-3 ml-4 pl-4 border-l-2 border-slate-100 space-y-2">
+                        {[...scenario.versions].reverse().map(version => (
+                          <li key={version.version} className="flex items-center justify-between gap-4 text-xs">
+                            <div className="min-w-0 text-slate-600">
+                              <span className="font-medium text-slate-800">v{version.version}</span>
+                              <span className="ml-2">{version.title}</span>
+                              <span className="ml-2 text-slate-400">
+                                {version.developmentLevel} · {DIFFICULTY_LABELS[version.difficulty]}
+                                {` · ${new Date(version.updatedAt).toLocaleString()}`}
+                                {version.updatedBy && ` · ${version.updatedBy}`}
+                              </span>
+                            </div>
+                            <button onClick={() => handleRestoreVersion(scenario, version.version)} className="text-indigo-600 hover:text-indigo-800 shrink-0">
+                              이 버전으로 되돌리기
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,20 @@
 import React, { useState } from 'react';
-import { Scenario, DevelopmentLevel } from '../types';
+import { Scenario, DevelopmentLevel, LibraryScenario, ScenarioDifficulty } from '../types';
 import { Button } from './Button';
+import { DIFFICULTY_LABELS } from '../services/scenarioLibrary';
+import { ProgramProgress } from '../services/programStore';
+import { maskLevelReferences } from '../services/selfDiagnosis';
 
 interface ScenarioSelectorProps {
   scenarios: Scenario[];
+  libraryScenarios: LibraryScenario[]; // Active (non-archived) library entries
+  assignments: ProgramProgress[]; // Programs the participant was invited to
+  onSelectAssignment: (programId: string, scenario: LibraryScenario) => void;
   onSelect: (scenario: Scenario) => void;
+  blindMode: boolean; // Hide development levels so participants diagnose them in the roleplay
+  onBlindModeChange: (blindMode: boolean) => void;
+  practiceMode: boolean; // Live coaching hints during the roleplay; not available in blind mode
+  onPracticeModeChange: (practiceMode: boolean) => void;
   isLoading: boolean;
   onRefresh: (industry?: string, role?: string) => void;
   onShare: (scenario: Scenario) => void;
@@ -12,13 +22,38 @@ interface ScenarioSelectorProps {
 
 export const ScenarioSelector: React.FC<ScenarioSelectorProps> = ({ 
   scenarios, 
+  libraryScenarios,
+  assignments,
+  onSelectAssignment,
   onSelect, 
+  blindMode,
+  onBlindModeChange,
+  practiceMode,
+  onPracticeModeChange,
   isLoading, 
   onRefresh,
   onShare 
 }) => {
   const [industry, setIndustry] = useState('');
   const [role, setRole] = useState('');
+  // null until the participant picks a tab; defaults to the library when it has entries
+  const [source, setSource] = useState<'library' | 'generated' | null>(null);
+  const [levelFilter, setLevelFilter] = useState<DevelopmentLevel | ''>('');
+  const [difficultyFilter, setDifficultyFilter] = useState<ScenarioDifficulty | ''>('');
+  const [searchText, setSearchText] = useState('');
+
+  const activeSource = source ?? (libraryScenarios.length > 0 ? 'library' : 'generated');
+
+  const filteredLibrary = libraryScenarios.filter(s => {
+    if (levelFilter && !blindMode && s.developmentLevel !== levelFilter) return false;
+    if (difficultyFilter && s.difficulty !== difficultyFilter) return false;
+    const query = searchText.trim().toLowerCase();
+    if (query) {
+      const haystack = [s.title, s.industry, s.jobRole, s.employeeRole].join(' ').toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+    return true;
+  });
 
   const getBadgeColor = (level: DevelopmentLevel) => {
     switch (level) {
@@ -45,6 +80,62 @@ export const ScenarioSelector: React.FC<ScenarioSelectorProps> = ({
     onRefresh(industry, role);
   };
 
+  const isLibraryScenario = (scenario: Scenario): scenario is LibraryScenario => 'version' in scenario;
+
+  const renderScenarioCard = (scenario: Scenario) => (
+    <div 
+      key={scenario.id} 
+      className="bg-white rounded-xl shadow-sm border border-slate-200 hover:shadow-md hover:border-indigo-300 transition-all cursor-pointer flex flex-col h-full overflow-hidden group relative"
+    >
+      <div className="p-1 bg-gradient-to-r from-slate-100 to-slate-50 border-b border-slate-100 flex justify-between items-center px-4 py-3">
+         {blindMode ? (
+           <span className="text-xs font-bold px-2 py-1 rounded border bg-slate-100 text-slate-500 border-slate-200">발달 단계 비공개</span>
+         ) : (
+           <span className={`text-xs font-bold px-2 py-1 rounded border ${getBadgeColor(scenario.developmentLevel)}`}>
+              {getLevelLabel(scenario.developmentLevel)}
+              {scenario.goals && scenario.goals.length > 1 && ` 외 목표 ${scenario.goals.length - 1}개`}
+           </span>
+         )}
+         <button 
+            onClick={(e) => {
+              e.stopPropagation();
+              onShare(scenario);
+            }}
+            className="text-slate-400 hover:text-indigo-600 p-1 rounded-full hover:bg-indigo-50 transition-colors"
+            title="링크 복사하여 공유하기"
+         >
+           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" /></svg>
+         </button>
+      </div>
+      <div className="p-6 flex-1 flex flex-col" onClick={() => onSelect(scenario)}>
+        <h3 className="font-bold text-lg text-slate-900 mb-2 group-hover:text-indigo-600 transition-colors">
+          {blindMode ? maskLevelReferences(scenario.title) : scenario.title}
+        </h3>
+        <div className="flex items-center text-sm text-slate-500 mb-4">
+          <span className="font-medium bg-slate-100 px-2 py-0.5 rounded mr-2">{scenario.employeeName}</span>
+          <span>{scenario.employeeRole}</span>
+        </div>
+        {isLibraryScenario(scenario) && (
+          <div className="flex flex-wrap gap-1 mb-3 text-[11px]">
+            {scenario.industry && <span className="bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded">{scenario.industry}</span>}
+            {scenario.jobRole && <span className="bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded">{scenario.jobRole}</span>}
+            <span className="bg-slate-100 text-slate-600 px-2 py-0.5 rounded">난이도 {DIFFICULTY_LABELS[scenario.difficulty]}</span>
+          </div>
+        )}
+        <p className="text-slate-600 text-sm line-clamp-4 flex-1">
+          {blindMode ? maskLevelReferences(scenario.description) : scenario.description}
+        </p>
+      </div>
+      <div className="p-4 bg-slate-50 border-t border-slate-100 text-center" onClick={() => onSelect(scenario)}>
+        <span className="text-indigo-600 font-medium text-sm group-hover:underline">선택하기 &rarr;</span>
+      </div>
+    </div>
+  );
+
+  const tabClass = (tab: 'library' | 'generated') =>
+    `px-4 py-2 rounded-lg text-sm font-medium transition-colors ${activeSource === tab ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-100'}`;
+  const filterClass = "px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm";
+
   return (
     <div className="max-w-6xl mx-auto p-6">
       <div className="text-center mb-10">
@@ -54,45 +145,146 @@ export const ScenarioSelector: React.FC<ScenarioSelectorProps> = ({
           코칭 피드백을 연습해 보세요
         </p>
 
+        {/* Assigned program steps, in order */}
+        {assignments.map(({ program, steps }) => {
+          const nextIndex = steps.findIndex(s => s.status !== 'done');
+          return (
+            <div key={program.id} className="max-w-3xl mx-auto bg-indigo-50 border border-indigo-100 rounded-xl p-5 mb-6 text-left">
+              <div className="flex justify-between items-center mb-3">
+                <h3 className="font-bold text-indigo-900">내 교육 과제 · {program.name}</h3>
+                <span className="text-xs text-indigo-700 font-medium">
+                  {steps.filter(s => s.status === 'done').length}/{steps.length} 완료
+                </span>
+              </div>
+              <ol className="space-y-2">
+                {steps.map(({ step, scenario, status, record }, idx) => (
+                  <li
+                    key={`${step.scenarioId}-${idx}`}
+                    className={`flex items-center gap-3 bg-white rounded-lg px-4 py-3 text-sm border ${idx === nextIndex ? 'border-indigo-400 shadow-sm' : 'border-transparent'}`}
+                  >
+                    <span className="font-bold text-slate-400 w-5">{idx + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-slate-900 truncate">
+                        {scenario ? (blindMode || program.blindMode ? maskLevelReferences(scenario.title) : scenario.title) : '(삭제된 시나리오)'}
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {scenario && (blindMode || program.blindMode ? '블라인드 진단' : getLevelLabel(scenario.developmentLevel))}
+                        {step.dueDate && ` · 마감 ${step.dueDate}`}
+                      </div>
+                    </div>
+                    {status === 'done' && record && (
+                      <span className="text-xs font-bold text-green-700 bg-green-100 px-2 py-1 rounded">완료 · {record.score}점</span>
+                    )}
+                    {status === 'overdue' && (
+                      <span className="text-xs font-bold text-red-700 bg-red-100 px-2 py-1 rounded">기한 초과</span>
+                    )}
+                    {scenario && (
+                      <Button
+                        size="sm"
+                        variant={idx === nextIndex ? 'primary' : 'outline'}
+                        onClick={() => onSelectAssignment(program.id, scenario)}
+                      >
+                        {status === 'done' ? '다시 하기' : '시작하기'}
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          );
+        })}
+
+        <label className="flex items-center justify-center gap-2 text-sm text-slate-600 mb-2">
+          <input type="checkbox" checked={blindMode} onChange={(e) => onBlindModeChange(e.target.checked)} />
+          블라인드 진단 모드 (발달 단계를 숨기고 대화 전후로 직접 진단합니다)
+        </label>
+        <label className={`flex items-center justify-center gap-2 text-sm mb-4 ${blindMode ? 'text-slate-400' : 'text-slate-600'}`}>
+          <input type="checkbox" checked={practiceMode && !blindMode} disabled={blindMode} onChange={(e) => onPracticeModeChange(e.target.checked)} />
+          연습 모드 (대화 중 실시간 코칭 힌트를 봅니다 · 프로그램 과제에는 적용되지 않습니다{blindMode ? ' · 블라인드 모드에서는 사용할 수 없습니다' : ''})
+        </label>
+
+        <div className="inline-flex bg-white border border-slate-200 rounded-xl p-1 mb-6 shadow-sm">
+          <button onClick={() => setSource('library')} className={tabClass('library')}>
+            시나리오 라이브러리 ({libraryScenarios.length})
+          </button>
+          <button onClick={() => setSource('generated')} className={tabClass('generated')}>
+            AI 생성
+          </button>
+        </div>
+
+        {activeSource === 'library' && (
+          <div className="max-w-3xl mx-auto bg-white p-4 rounded-xl shadow-sm border border-slate-200 mb-8 flex flex-col md:flex-row gap-3">
+            <input
+              type="text"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="제목, 산업군, 직무 검색"
+              className={`${filterClass} flex-1`}
+            />
+            {!blindMode && (
+              <select value={levelFilter} onChange={(e) => setLevelFilter(e.target.value as DevelopmentLevel | '')} className={filterClass}>
+                <option value="">모든 단계</option>
+                {Object.values(DevelopmentLevel).map(level => <option key={level} value={level}>{getLevelLabel(level)}</option>)}
+              </select>
+            )}
+            <select value={difficultyFilter} onChange={(e) => setDifficultyFilter(e.target.value as ScenarioDifficulty | '')} className={filterClass}>
+              <option value="">모든 난이도</option>
+              {(Object.keys(DIFFICULTY_LABELS) as ScenarioDifficulty[]).map(d => <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>)}
+            </select>
+          </div>
+        )}
+
         {/* Custom Scenario Settings */}
-        <div className="max-w-3xl mx-auto bg-white p-6 rounded-xl shadow-sm border border-slate-200 mb-8">
-           <form onSubmit={handleCustomGenerate} className="flex flex-col md:flex-row gap-4 items-end">
-             <div className="flex-1 w-full text-left">
-               <label className="block text-sm font-medium text-slate-700 mb-1">산업군 (Industry)</label>
-               <input 
-                 type="text" 
-                 value={industry}
-                 onChange={(e) => setIndustry(e.target.value)}
-                 placeholder="예: IT 스타트업, 자동차 제조업, 병원" 
-                 className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
-               />
-             </div>
-             <div className="flex-1 w-full text-left">
-               <label className="block text-sm font-medium text-slate-700 mb-1">직무 (Job Role)</label>
-               <input 
-                 type="text" 
-                 value={role}
-                 onChange={(e) => setRole(e.target.value)}
-                 placeholder="예: 영업 사원, 백엔드 개발자, 간호사" 
-                 className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
-               />
+        {activeSource === 'generated' && (
+          <div className="max-w-3xl mx-auto bg-white p-6 rounded-xl shadow-sm border border-slate-200 mb-8">
+             <form onSubmit={handleCustomGenerate} className="flex flex-col md:flex-row gap-4 items-end">
+               <div className="flex-1 w-full text-left">
+                 <label className="block text-sm font-medium text-slate-700 mb-1">산업군 (Industry)</label>
+                 <input 
+                   type="text" 
+                   value={industry}
+                   onChange={(e) => setIndustry(e.target.value)}
+                   placeholder="예: IT 스타트업, 자동차 제조업, 병원" 
+                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                 />
+               </div>
+               <div className="flex-1 w-full text-left">
+                 <label className="block text-sm font-medium text-slate-700 mb-1">직무 (Job Role)</label>
+                 <input 
+                   type="text" 
+                   value={role}
+                   onChange={(e) => setRole(e.target.value)}
+                   placeholder="예: 영업 사원, 백엔드 개발자, 간호사" 
+                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                 />
+               </div>
+               <Button 
+                 type="submit" 
+                 variant="primary" 
+                 className="w-full md:w-auto min-w-[120px] h-[42px]"
+                 isLoading={isLoading}
+               >
+                  {isLoading ? '생성 중...' : '맞춤 생성'}
+               </Button>
+             </form>
+             <div className="mt-2 text-xs text-slate-400 text-left">
+                * 입력하지 않으면 랜덤한 산업군과 직무로 시나리오가 생성됩니다.
              </div>
-             <Button 
-               type="submit" 
-               variant="primary" 
-               className="w-full md:w-auto min-w-[120px] h-[42px]"
-               isLoading={isLoading}
-             >
-                {isLoading ? '생성 중...' : '맞춤 생성'}
-             </Button>
-           </form>
-           <div className="mt-2 text-xs text-slate-400 text-left">
-              * 입력하지 않으면 랜덤한 산업군과 직무로 시나리오가 생성됩니다.
-           </div>
-        </div>
+          </div>
+        )}
       </div>
 
-      {isLoading ? (
+      {activeSource === 'library' ? (
+        filteredLibrary.length === 0 ? (
+          <p className="text-center text-slate-400 py-20">
+            {libraryScenarios.length === 0 ? '라이브러리에 등록된 시나리오가 없습니다.' : '조건에 맞는 시나리오가 없습니다.'}
+          </p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 animate-fade-in-up">
+            {filteredLibrary.map(renderScenarioCard)}
+          </div>
+        )
+      ) : isLoading ? (
         <div className="flex flex-col items-center justify-center py-20 space-y-4">
           <div className="w-12 h-12 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
           <p className="text-slate-500 animate-pulse">
@@ -101,43 +293,10 @@ export const ScenarioSelector: React.FC<ScenarioSelectorProps> = ({
         </div>
       ) : (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 animate-fade-in-up">
-          {scenarios.map((scenario) => (
-            <div 
-              key={scenario.id} 
-              className="bg-white rounded-xl shadow-sm border border-slate-200 hover:shadow-md hover:border-indigo-300 transition-all cursor-pointer flex flex-col h-full overflow-hidden group relative"
-            >
-              <div className="p-1 bg-gradient-to-r from-slate-100 to-slate-50 border-b border-slate-100 flex justify-between items-center px-4 py-3">
-                 <span className={`text-xs font-bold px-2 py-1 rounded border ${getBadgeColor(scenario.developmentLevel)}`}>
-                    {getLevelLabel(scenario.developmentLevel)}
-                 </span>
-                 <button 
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onShare(scenario);
-                    }}
-                    className="text-slate-400 hover:text-indigo-600 p-1 rounded-full hover:bg-indigo-50 transition-colors"
-                    title="링크 복사하여 공유하기"
-                 >
-                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" /></svg>
-                 </button>
-              </div>
-              <div className="p-6 flex-1 flex flex-col" onClick={() => onSelect(scenario)}>
-                <h3 className="font-bold text-lg text-slate-900 mb-2 group-hover:text-indigo-600 transition-colors">
-                  {scenario.title}
-                </h3>
-                <div className="flex items-center text-sm text-slate-500 mb-4">
-                  <span className="font-medium bg-slate-100 px-2 py-0.5 rounded mr-2">{scenario.employeeName}</span>
-                  <span>{scenario.employeeRole}</span>
-                </div>
-                <p className="text-slate-600 text-sm line-clamp-4 flex-1">
-                  {scenario.description}
-                </p>
-              </div>
-              <div className="p-4 bg-slate-50 border-t border-slate-100 text-center" onClick={() => onSelect(scenario)}>
-                <span className="text-indigo-600 font-medium text-sm group-hover:underline">선택하기 &rarr;</span>
-              </div>
-            </div>
-          ))}
+          {scenarios.length === 0 && (
+            <p className="col-span-full text-center text-slate-400 py-20">'맞춤 생성'을 눌러 새 시나리오를 만들어 보세요.</p>
+          )}
+          {scenarios.map(renderScenarioCard)}
         </div>
       )}
     </div>
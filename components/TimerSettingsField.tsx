@@ -0,0 +1,38 @@
+import React from 'react';
+import { TimerMode, TimerSettings } from '../types';
+import { DEFAULT_TIMER, TIMER_MODE_LABELS } from '../services/sessionTiming';
+
+interface TimerSettingsFieldProps {
+  value?: TimerSettings; // undefined = inherit
+  inheritLabel: string; // What "no setting" falls back to
+  onChange: (value: TimerSettings | undefined) => void;
+}
+
+// Timer mode and duration for a scenario or program
+export const TimerSettingsField: React.FC<TimerSettingsFieldProps> = ({ value, inheritLabel, onChange }) => (
+  <div className="flex flex-wrap items-center gap-2 text-sm">
+    <select
+      value={value?.mode || ''}
+      onChange={(e) => onChange(e.target.value
+        ? { mode: e.target.value as TimerMode, durationSeconds: value?.durationSeconds || DEFAULT_TIMER.durationSeconds }
+        : undefined)}
+      className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+    >
+      <option value="">{inheritLabel}</option>
+      {(Object.keys(TIMER_MODE_LABELS) as TimerMode[]).map(mode => <option key={mode} value={mode}>{TIMER_MODE_LABELS[mode]}</option>)}
+    </select>
+    {value && value.mode !== 'untimed' && (
+      <label className="flex items-center gap-1 text-slate-600">
+        <input
+          type="number"
+          min={1}
+          max={60}
+          value={Math.round(value.durationSeconds / 60)}
+          onChange={(e) => onChange({ ...value, durationSeconds: Math.max(1, parseInt(e.target.value, 10) || 1) * 60 })}
+          className="w-16 px-2 py-1 border border-slate-300 rounded text-right"
+        />
+        분
+      </label>
+    )}
+  </div>
+);
@@ -0,0 +1,94 @@
+import React, { useEffect } from 'react';
+import { Message, Scenario, StyleKey, TurnClassification, TurnFeedback } from '../types';
+import { BehaviorChips } from './BehaviorChips';
+
+interface TranscriptViewProps {
+  scenario: Scenario;
+  messages: Message[];
+  turns: TurnFeedback[];
+  behaviors: TurnClassification[]; // Per-message directive/supportive ratings
+  expectedStyle?: StyleKey;
+  userName?: string;
+  focusedMessageId: string | null;
+  onFocusMessage: (messageId: string) => void;
+}
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({
+  scenario,
+  messages,
+  turns,
+  behaviors,
+  expectedStyle,
+  userName,
+  focusedMessageId,
+  onFocusMessage
+}) => {
+  // Map message id -> index of the turnByTurnAnalysis entry that critiques it
+  const turnIndexByMessage = new Map<string, number>();
+  turns.forEach((turn, idx) => {
+    if (turn.messageId && !turnIndexByMessage.has(turn.messageId)) {
+      turnIndexByMessage.set(turn.messageId, idx);
+    }
+  });
+
+  const behaviorByMessage = new Map(behaviors.map(b => [b.messageId, b]));
+
+  // Bring the focused message into view when a turn card is clicked in the report
+  useEffect(() => {
+    if (focusedMessageId) {
+      document.getElementById(`transcript-msg-${focusedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [focusedMessageId]);
+
+  const handleTurnChipClick = (messageId: string, turnIdx: number) => {
+    onFocusMessage(messageId);
+    document.getElementById(`turn-${turnIdx}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-slate-200 overflow-hidden flex flex-col max-h-[calc(100vh-3rem)]">
+      <div className="bg-indigo-600 px-5 py-3 text-white shrink-0">
+        <h2 className="font-bold">대화 전문 (Transcript)</h2>
+        <p className="text-indigo-100 text-xs">{scenario.employeeName} ({scenario.employeeRole}) · {scenario.title}</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 bg-slate-50 space-y-4">
+        {messages.length === 0 && (
+          <p className="text-center text-sm text-slate-400 py-8">저장된 대화 내용이 없습니다.</p>
+        )}
+        {messages.map((msg) => {
+          const turnIdx = turnIndexByMessage.get(msg.id);
+          const isFocused = msg.id === focusedMessageId;
+          const classification = behaviorByMessage.get(msg.id);
+          return (
+            <div
+              key={msg.id}
+              id={`transcript-msg-${msg.id}`}
+              className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}
+            >
+              <span className="text-[11px] text-slate-400 mb-1">
+                {msg.role === 'user' ? (userName || '나') : scenario.employeeName}
+              </span>
+              <div className={`px-4 py-2 rounded-2xl text-sm leading-relaxed whitespace-pre-wrap max-w-[90%] transition-shadow ${
+                msg.role === 'user'
+                  ? 'bg-indigo-600 text-white rounded-tr-none'
+                  : 'bg-white text-slate-800 border border-slate-200 rounded-tl-none'
+              } ${isFocused ? 'ring-4 ring-amber-300' : ''}`}>
+                {msg.text}
+              </div>
+              {classification && <BehaviorChips classification={classification} expectedStyle={expectedStyle} />}
+              {turnIdx !== undefined && (
+                <button
+                  onClick={() => handleTurnChipClick(msg.id, turnIdx)}
+                  className="mt-1 text-[11px] font-bold px-2 py-0.5 rounded-full bg-orange-100 text-orange-700 hover:bg-orange-200 transition-colors"
+                >
+                  Turn #{turnIdx + 1} 피드백 보기
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
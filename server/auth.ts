@@ -0,0 +1,100 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { SessionRecord } from '../types';
+import { isSameParticipant, ParticipantRef } from '../services/participantProfile';
+import { serverConfig } from './config';
+import { claimParticipantToken, deleteParticipantToken, getParticipantTokenHash } from './db';
+import { HttpError } from './http';
+
+// Who is calling the API. Facilitators send the server's ADMIN_TOKEN as a bearer token and may read and change
+// everything. Participants have no account (see services/participantProfile.ts): the browser sends the name typed
+// on the start screen in X-SLII-Participant ("company/user", each part URI-encoded). The server issues each name a
+// token with its first saved session (X-SLII-Participant-Token response header); from then on only requests carrying
+// that token act as the participant, and only they can read that participant's sessions.
+
+export const PARTICIPANT_TOKEN_HEADER = 'X-SLII-Participant-Token';
+
+// A participant named by the request. isVerified: the participant holds a token and the request carried it.
+// Until their first session is saved nobody holds one, so a name without a token is unverified.
+export interface RequestParticipant extends ParticipantRef {
+  isVerified: boolean;
+}
+
+const readHeader = (req: IncomingMessage, name: string): string | undefined => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const safeEqual = (given: string, expected: string): boolean => {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// Same case-insensitive identity as isSameParticipant
+const participantKey = (participant: ParticipantRef) =>
+  `${(participant.companyName || '').trim().toLowerCase()}/${participant.userName.trim().toLowerCase()}`;
+
+export const isAdminRequest = (req: IncomingMessage): boolean => {
+  const match = /^Bearer\s+(.+)$/i.exec(readHeader(req, 'authorization') || '');
+  if (!serverConfig.adminToken || !match) return false;
+  return safeEqual(match[1].trim(), serverConfig.adminToken);
+};
+
+export const requireAdmin = (req: IncomingMessage) => {
+  if (isAdminRequest(req)) return;
+  if (!serverConfig.adminToken) {
+    throw new HttpError(403, 'Admin access is disabled: set ADMIN_TOKEN on the server');
+  }
+  throw new HttpError(401, 'Admin token required');
+};
+
+export const getRequestParticipant = (req: IncomingMessage): RequestParticipant | null => {
+  const header = readHeader(req, 'x-slii-participant');
+  if (!header) return null;
+  const [company, user] = header.split('/');
+  let participant: ParticipantRef;
+  try {
+    participant = { companyName: decodeURIComponent(company || ''), userName: decodeURIComponent(user || '') };
+  } catch {
+    throw new HttpError(400, 'Malformed X-SLII-Participant header');
+  }
+  if (!participant.userName.trim()) return null;
+
+  const issuedHash = getParticipantTokenHash(participantKey(participant));
+  if (!issuedHash) return { ...participant, isVerified: false };
+  const token = (readHeader(req, PARTICIPANT_TOKEN_HEADER.toLowerCase()) || '').trim();
+  if (!token || !safeEqual(hashToken(token), issuedHash)) {
+    throw new HttpError(401, 'Participant token required');
+  }
+  return { ...participant, isVerified: true };
+};
+
+export const requireParticipant = (req: IncomingMessage): RequestParticipant => {
+  const participant = getRequestParticipant(req);
+  if (!participant) throw new HttpError(401, 'X-SLII-Participant header required');
+  return participant;
+};
+
+// Admins may touch any record; participants only their own (existing and new version alike).
+// A participant's first save claims their name: the server issues the token the browser sends from then on.
+export const assertCanWriteSession = (req: IncomingMessage, res: ServerResponse, record: SessionRecord, existing?: SessionRecord) => {
+  if (isAdminRequest(req)) return;
+  const participant = requireParticipant(req);
+  if (!isSameParticipant(record, participant) || (existing && !isSameParticipant(existing, participant))) {
+    throw new HttpError(403, 'Participants can only save their own sessions');
+  }
+  if (participant.isVerified) return;
+  const token = randomBytes(24).toString('base64url');
+  // Lost a race with another first save under the same name
+  if (!claimParticipantToken(participantKey(participant), hashToken(token))) {
+    throw new HttpError(401, 'Participant token required');
+  }
+  res.setHeader(PARTICIPANT_TOKEN_HEADER, token);
+};
+
+// Releases a name whose token was lost (e.g. the participant switched browsers); their next save issues a new one
+export const releaseParticipantToken = (participant: ParticipantRef): boolean =>
+  deleteParticipantToken(participantKey(participant)) > 0;
@@ -0,0 +1,12 @@
+// Server settings, read once from the environment
+export const serverConfig = {
+  port: parseInt(process.env.PORT || '8787', 10),
+  dbPath: process.env.DB_PATH || './data/slii.db',
+  // Origin allowed to call the API from the browser (the Vite dev server by default)
+  corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
+  // LLM proxy (server/routes/coach.ts): requests per client address per minute (0 = unlimited), optional JSONL log file
+  proxyRateLimitPerMinute: parseInt(process.env.PROXY_RATE_LIMIT_PER_MINUTE || '30', 10),
+  proxyLogPath: process.env.PROXY_LOG_PATH || '',
+  // Bearer token facilitators enter at admin login; without it every admin endpoint is refused (server/auth.ts)
+  adminToken: process.env.ADMIN_TOKEN || '',
+};
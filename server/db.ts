@@ -0,0 +1,280 @@
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
+import { Rubric, Scenario, SessionRecord, StoredTeamReport, TrainingProgram } from '../types';
+import { ParticipantRef } from '../services/participantProfile';
+import { serverConfig } from './config';
+
+// SQLite persistence. Each row keeps the full object as JSON in `data`,
+// with the columns we filter and sort on pulled out alongside it.
+
+export interface SessionFilter {
+  companyName?: string;
+  userName?: string;
+  date?: string; // Exact match on the record's ISO date, like the IndexedDB 'date' index
+  includeDeleted?: boolean;
+  participant?: ParticipantRef; // Case-insensitive match, like isSameParticipant
+}
+
+const openDatabase = () => {
+  const dir = path.dirname(serverConfig.dbPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  const db = new Database(serverConfig.dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_name TEXT NOT NULL,
+      company_name TEXT,
+      date TEXT NOT NULL,
+      is_deleted INTEGER NOT NULL DEFAULT 0,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_sessions_company ON sessions(company_name);
+    CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_name);
+    CREATE INDEX IF NOT EXISTS idx_sessions_date ON sessions(date);
+
+    CREATE TABLE IF NOT EXISTS scenarios (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      development_level TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS programs (
+      id TEXT PRIMARY KEY,
+      company_name TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS rubrics (
+      id TEXT PRIMARY KEY,
+      company_name TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS team_reports (
+      id TEXT PRIMARY KEY,
+      created_at TEXT NOT NULL,
+      company_name TEXT,
+      data TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS participant_tokens (
+      participant_key TEXT PRIMARY KEY,
+      token_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+  `);
+  return db;
+};
+
+const db = openDatabase();
+
+const parseRows = <T>(rows: unknown[]): T[] => rows.map(row => JSON.parse((row as { data: string }).data) as T);
+
+// --- Sessions ---
+
+export const listSessions = (filter: SessionFilter = {}): SessionRecord[] => {
+  const clauses: string[] = [];
+  const params: Record<string, string> = {};
+  if (filter.companyName) {
+    clauses.push('company_name = @companyName');
+    params.companyName = filter.companyName;
+  }
+  if (filter.userName) {
+    clauses.push('user_name = @userName');
+    params.userName = filter.userName;
+  }
+  if (filter.date) {
+    clauses.push('date = @date');
+    params.date = filter.date;
+  }
+  if (filter.participant) {
+    clauses.push("lower(trim(user_name)) = @participantUser AND lower(trim(coalesce(company_name, ''))) = @participantCompany");
+    params.participantUser = filter.participant.userName.trim().toLowerCase();
+    params.participantCompany = (filter.participant.companyName || '').trim().toLowerCase();
+  }
+  if (!filter.includeDeleted) {
+    clauses.push('is_deleted = 0');
+  }
+  const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+  return parseRows<SessionRecord>(db.prepare(`SELECT data FROM sessions ${where} ORDER BY date DESC`).all(params));
+};
+
+export const getSession = (id: string): SessionRecord | undefined => {
+  const row = db.prepare('SELECT data FROM sessions WHERE id = ?').get(id);
+  return row ? parseRows<SessionRecord>([row])[0] : undefined;
+};
+
+const upsertSessionStatement = db.prepare(`
+  INSERT INTO sessions (id, user_name, company_name, date, is_deleted, data)
+  VALUES (@id, @userName, @companyName, @date, @isDeleted, @data)
+  ON CONFLICT(id) DO UPDATE SET
+    user_name = excluded.user_name,
+    company_name = excluded.company_name,
+    date = excluded.date,
+    is_deleted = excluded.is_deleted,
+    data = excluded.data
+`);
+
+export const saveSession = (record: SessionRecord): SessionRecord => {
+  upsertSessionStatement.run({
+    id: record.id,
+    userName: record.userName,
+    companyName: record.companyName ?? null,
+    date: record.date,
+    isDeleted: record.isDeleted ? 1 : 0,
+    data: JSON.stringify(record),
+  });
+  return record;
+};
+
+export const updateSessions = db.transaction((ids: string[], patch: Partial<SessionRecord>) => {
+  ids.forEach(id => {
+    const existing = getSession(id);
+    if (existing) {
+      saveSession({ ...existing, ...patch, id });
+    }
+  });
+});
+
+export const deleteSessions = db.transaction((ids: string[]) => {
+  const statement = db.prepare('DELETE FROM sessions WHERE id = ?');
+  ids.forEach(id => statement.run(id));
+});
+
+// --- Scenarios ---
+
+export const listScenarios = (): Scenario[] =>
+  parseRows<Scenario>(db.prepare('SELECT data FROM scenarios ORDER BY updated_at DESC').all());
+
+export const getScenario = (id: string): Scenario | undefined => {
+  const row = db.prepare('SELECT data FROM scenarios WHERE id = ?').get(id);
+  return row ? parseRows<Scenario>([row])[0] : undefined;
+};
+
+export const saveScenario = (scenario: Scenario): Scenario => {
+  db.prepare(`
+    INSERT INTO scenarios (id, title, development_level, updated_at, data)
+    VALUES (@id, @title, @developmentLevel, @updatedAt, @data)
+    ON CONFLICT(id) DO UPDATE SET
+      title = excluded.title,
+      development_level = excluded.development_level,
+      updated_at = excluded.updated_at,
+      data = excluded.data
+  `).run({
+    id: scenario.id,
+    title: scenario.title,
+    developmentLevel: scenario.developmentLevel,
+    updatedAt: new Date().toISOString(),
+    data: JSON.stringify(scenario),
+  });
+  return scenario;
+};
+
+export const deleteScenario = (id: string) => {
+  db.prepare('DELETE FROM scenarios WHERE id = ?').run(id);
+};
+
+// --- Training programs ---
+
+export const listPrograms = (): TrainingProgram[] =>
+  parseRows<TrainingProgram>(db.prepare('SELECT data FROM programs ORDER BY updated_at DESC').all());
+
+export const getProgram = (id: string): TrainingProgram | undefined => {
+  const row = db.prepare('SELECT data FROM programs WHERE id = ?').get(id);
+  return row ? parseRows<TrainingProgram>([row])[0] : undefined;
+};
+
+export const saveProgram = (program: TrainingProgram): TrainingProgram => {
+  db.prepare(`
+    INSERT OR REPLACE INTO programs (id, company_name, updated_at, data)
+    VALUES (@id, @companyName, @updatedAt, @data)
+  `).run({
+    id: program.id,
+    companyName: program.companyName,
+    updatedAt: program.updatedAt,
+    data: JSON.stringify(program),
+  });
+  return program;
+};
+
+export const deleteProgram = (id: string) => {
+  db.prepare('DELETE FROM programs WHERE id = ?').run(id);
+};
+
+// --- Assessment rubrics ---
+
+export const listRubrics = (): Rubric[] =>
+  parseRows<Rubric>(db.prepare('SELECT data FROM rubrics ORDER BY updated_at DESC').all());
+
+export const getRubric = (id: string): Rubric | undefined => {
+  const row = db.prepare('SELECT data FROM rubrics WHERE id = ?').get(id);
+  return row ? parseRows<Rubric>([row])[0] : undefined;
+};
+
+export const saveRubric = (rubric: Rubric): Rubric => {
+  db.prepare(`
+    INSERT OR REPLACE INTO rubrics (id, company_name, updated_at, data)
+    VALUES (@id, @companyName, @updatedAt, @data)
+  `).run({
+    id: rubric.id,
+    companyName: rubric.companyName,
+    updatedAt: rubric.updatedAt,
+    data: JSON.stringify(rubric),
+  });
+  return rubric;
+};
+
+// --- Team reports ---
+
+export const listTeamReports = (companyName?: string): StoredTeamReport[] => {
+  const rows = companyName
+    ? db.prepare('SELECT data FROM team_reports WHERE company_name = ? ORDER BY created_at DESC').all(companyName)
+    : db.prepare('SELECT data FROM team_reports ORDER BY created_at DESC').all();
+  return parseRows<StoredTeamReport>(rows);
+};
+
+export const getTeamReport = (id: string): StoredTeamReport | undefined => {
+  const row = db.prepare('SELECT data FROM team_reports WHERE id = ?').get(id);
+  return row ? parseRows<StoredTeamReport>([row])[0] : undefined;
+};
+
+export const saveTeamReport = (report: StoredTeamReport): StoredTeamReport => {
+  db.prepare(`
+    INSERT OR REPLACE INTO team_reports (id, created_at, company_name, data)
+    VALUES (@id, @createdAt, @companyName, @data)
+  `).run({
+    id: report.id,
+    createdAt: report.createdAt,
+    companyName: report.companyName ?? null,
+    data: JSON.stringify(report),
+  });
+  return report;
+};
+
+export const deleteTeamReport = (id: string) => {
+  db.prepare('DELETE FROM team_reports WHERE id = ?').run(id);
+};
+
+// --- Participant tokens ---
+// Only a hash of each token is kept (see server/auth.ts)
+
+export const getParticipantTokenHash = (participantKey: string): string | undefined => {
+  const row = db.prepare('SELECT token_hash FROM participant_tokens WHERE participant_key = ?').get(participantKey);
+  return (row as { token_hash: string } | undefined)?.token_hash;
+};
+
+// False if the participant already holds a token
+export const claimParticipantToken = (participantKey: string, tokenHash: string): boolean =>
+  db.prepare('INSERT OR IGNORE INTO participant_tokens (participant_key, token_hash, created_at) VALUES (?, ?, ?)')
+    .run(participantKey, tokenHash, new Date().toISOString()).changes > 0;
+
+export const deleteParticipantToken = (participantKey: string): number =>
+  db.prepare('DELETE FROM participant_tokens WHERE participant_key = ?').run(participantKey).changes;
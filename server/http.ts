@@ -0,0 +1,93 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+// Minimal routing/JSON helpers on top of node:http, so the server has no framework dependency
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: Record<string, string>;
+  query: URLSearchParams;
+}
+
+export type RouteHandler = (ctx: RouteContext) => Promise<unknown> | unknown;
+
+export interface Route {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: RouteHandler;
+}
+
+// Turns '/api/sessions/:id' into a regex with named params
+export const route = (method: string, path: string, handler: RouteHandler): Route => {
+  const paramNames: string[] = [];
+  const pattern = new RegExp(
+    '^' + path.replace(/:([a-zA-Z]+)/g, (_, name) => {
+      paramNames.push(name);
+      return '([^/]+)';
+    }) + '/?$'
+  );
+  return { method, pattern, paramNames, handler };
+};
+
+// Parsed against a fixed base: the client's Host header is never trusted to form a valid URL
+export const parseRequestUrl = (req: IncomingMessage): URL => {
+  try {
+    return new URL(req.url || '/', 'http://localhost');
+  } catch {
+    throw new HttpError(400, 'Malformed URL');
+  }
+};
+
+export const matchRoute = (routes: Route[], method: string, pathname: string) => {
+  for (const r of routes) {
+    if (r.method !== method) continue;
+    const match = r.pattern.exec(pathname);
+    if (match) {
+      const params: Record<string, string> = {};
+      r.paramNames.forEach((name, i) => {
+        try {
+          params[name] = decodeURIComponent(match[i + 1]);
+        } catch {
+          throw new HttpError(400, 'Malformed URL');
+        }
+      });
+      return { route: r, params };
+    }
+  }
+  return null;
+};
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024; // Full transcripts can be large, but not this large
+
+export const readJsonBody = async <T>(req: IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  if (!raw) {
+    throw new HttpError(400, 'Request body is required');
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
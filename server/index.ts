@@ -0,0 +1,63 @@
+import { createServer } from 'node:http';
+import { serverConfig } from './config';
+import { HttpError, matchRoute, parseRequestUrl, sendJson } from './http';
+import { sessionRoutes } from './routes/sessions';
+import { scenarioRoutes } from './routes/scenarios';
+import { teamReportRoutes } from './routes/teamReports';
+import { programRoutes } from './routes/programs';
+import { rubricRoutes } from './routes/rubrics';
+import { coachRoutes } from './routes/coach';
+import { authRoutes } from './routes/auth';
+
+// Self-hosted REST API for team data (sessions, scenarios, programs, team reports) backed by SQLite.
+// Run with `npm run server`; point the web app at it with SESSION_STORE=api and API_BASE_URL.
+// Also serves the LLM proxy under /api/coach for LLM_PROVIDER=proxy.
+
+const routes = [...sessionRoutes, ...scenarioRoutes, ...teamReportRoutes, ...programRoutes, ...rubricRoutes, ...coachRoutes, ...authRoutes];
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', serverConfig.corsOrigin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-SLII-User, X-SLII-Participant, X-SLII-Participant-Token');
+  res.setHeader('Access-Control-Expose-Headers', 'X-SLII-Participant-Token');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  try {
+    const url = parseRequestUrl(req);
+
+    if (url.pathname === '/api/health') {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    const matched = matchRoute(routes, req.method || 'GET', url.pathname);
+    if (!matched) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    const result = await matched.route.handler({ req, res, params: matched.params, query: url.searchParams });
+    // Streaming handlers write the response themselves
+    if (res.headersSent) return;
+    sendJson(res, req.method === 'POST' ? 201 : 200, result);
+  } catch (error: any) {
+    if (error instanceof HttpError && !res.headersSent) {
+      sendJson(res, error.status, { error: error.message });
+      return;
+    }
+    console.error(`${req.method} ${req.url} failed:`, error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendJson(res, 500, { error: 'Internal server error' });
+  }
+});
+
+server.listen(serverConfig.port, () => {
+  console.log(`SLII API listening on http://localhost:${serverConfig.port} (db: ${serverConfig.dbPath})`);
+});
@@ -0,0 +1,53 @@
+import { IncomingMessage } from 'node:http';
+import { HttpError } from './http';
+
+// Fixed-window request counter per client address, so one user can't burn the shared LLM quota
+
+interface Window {
+  startedAt: number;
+  count: number;
+}
+
+const WINDOW_MS = 60 * 1000;
+const windows = new Map<string, Window>();
+
+const getClientAddress = (req: IncomingMessage) => req.socket.remoteAddress || 'unknown';
+
+// For the request log: the participant name the browser sends in X-SLII-User, plus the client address
+export const getRequestUser = (req: IncomingMessage): string => {
+  const header = req.headers['x-slii-user'];
+  const user = Array.isArray(header) ? header[0] : header;
+  if (user) {
+    try {
+      return `user:${decodeURIComponent(user)}@${getClientAddress(req)}`;
+    } catch {
+      return `user:${user}@${getClientAddress(req)}`;
+    }
+  }
+  return `ip:${getClientAddress(req)}`;
+};
+
+// The limit never trusts X-SLII-User: a client could send a new name with every request
+export const getRateLimitKey = (req: IncomingMessage): string => `ip:${getClientAddress(req)}`;
+
+export const enforceRateLimit = (key: string, limitPerMinute: number) => {
+  if (limitPerMinute <= 0) return;
+  const now = Date.now();
+  const current = windows.get(key);
+  if (!current || now - current.startedAt >= WINDOW_MS) {
+    windows.set(key, { startedAt: now, count: 1 });
+    return;
+  }
+  if (current.count >= limitPerMinute) {
+    throw new HttpError(429, 'Too many requests. Please wait a minute and try again.');
+  }
+  current.count++;
+};
+
+// Drop expired windows so the map doesn't grow with every participant ever seen
+setInterval(() => {
+  const now = Date.now();
+  windows.forEach((w, key) => {
+    if (now - w.startedAt >= WINDOW_MS) windows.delete(key);
+  });
+}, WINDOW_MS).unref();
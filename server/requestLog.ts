@@ -0,0 +1,22 @@
+import { appendFile } from 'node:fs/promises';
+import { serverConfig } from './config';
+
+// One line per proxied LLM call. Only metadata is logged, never transcript or scenario content.
+
+export interface ProxyLogEntry {
+  at: string;
+  user: string;
+  operation: string;
+  status: number;
+  durationMs: number;
+  error?: string;
+}
+
+export const logProxyRequest = (entry: ProxyLogEntry) => {
+  console.log(`[proxy] ${entry.operation} ${entry.status} ${entry.durationMs}ms ${entry.user}${entry.error ? ` - ${entry.error}` : ''}`);
+  if (serverConfig.proxyLogPath) {
+    appendFile(serverConfig.proxyLogPath, JSON.stringify(entry) + '\n').catch(error => {
+      console.error("Failed to write proxy log:", error);
+    });
+  }
+};
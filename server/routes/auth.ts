@@ -0,0 +1,18 @@
+import { HttpError, route } from '../http';
+import { releaseParticipantToken, requireAdmin } from '../auth';
+
+export const authRoutes = [
+  // Lets the admin login check the ADMIN_TOKEN before storing it
+  route('GET', '/api/auth/admin', ({ req }) => {
+    requireAdmin(req);
+    return { ok: true };
+  }),
+
+  // ?companyName=&userName= — lets a participant who lost their token claim the name again with their next session
+  route('DELETE', '/api/auth/participant-token', ({ req, query }) => {
+    requireAdmin(req);
+    const userName = query.get('userName') || '';
+    if (!userName.trim()) throw new HttpError(400, 'userName query parameter is required');
+    return { deleted: releaseParticipantToken({ userName, companyName: query.get('companyName') || '' }) ? 1 : 0 };
+  }),
+];
@@ -0,0 +1,85 @@
+import { Message, Rubric, Scenario, SessionDiagnosis, SessionRecord, SessionTiming } from '../../types';
+import { analyzeFullSession, generateScenarios, generateTeamAnalysis, getEmployeeResponse } from '../../services/geminiService';
+import { isProxyMode } from '../../services/llmProvider';
+import { serverConfig } from '../config';
+import { HttpError, readJsonBody, route, RouteContext, RouteHandler } from '../http';
+import { enforceRateLimit, getRateLimitKey, getRequestUser } from '../rateLimit';
+import { logProxyRequest } from '../requestLog';
+
+// LLM proxy for LLM_PROVIDER=proxy in the browser. The server runs the same geminiService operations with its own
+// API_KEY / LLM_* settings, so keys and prompts stay here and the browser only gets the final payloads.
+
+interface SessionBody {
+  scenario: Scenario;
+  history: Message[];
+}
+
+const assertSessionBody = (body: Partial<SessionBody>) => {
+  if (!body.scenario || !Array.isArray(body.history)) {
+    throw new HttpError(400, 'scenario and history are required');
+  }
+};
+
+// Rate-limits and logs each call; the handler's own result/error handling is unchanged
+const proxied = (operation: string, handler: RouteHandler): RouteHandler => async (ctx: RouteContext) => {
+  const user = getRequestUser(ctx.req);
+  const startedAt = Date.now();
+  const log = (status: number, error?: string) => logProxyRequest({
+    at: new Date(startedAt).toISOString(),
+    user,
+    operation,
+    status,
+    durationMs: Date.now() - startedAt,
+    error,
+  });
+
+  try {
+    if (isProxyMode('roleplay') || isProxyMode('analysis')) {
+      throw new HttpError(500, 'Server LLM_PROVIDER must be a real provider, not proxy');
+    }
+    enforceRateLimit(getRateLimitKey(ctx.req), serverConfig.proxyRateLimitPerMinute);
+    const result = await handler(ctx);
+    log(200);
+    return result;
+  } catch (error: any) {
+    log(error instanceof HttpError ? error.status : 500, error.message || String(error));
+    throw error;
+  }
+};
+
+export const coachRoutes = [
+  route('POST', '/api/coach/scenarios', proxied('scenarios', async ({ req }) => {
+    const body = await readJsonBody<{ industry?: string; role?: string }>(req);
+    return generateScenarios(body.industry, body.role);
+  })),
+
+  // ?stream=true answers with NDJSON: {"partial": "..."} per update, then {"final": "..."}
+  route('POST', '/api/coach/reply', proxied('reply', async ({ req, res, query }) => {
+    const body = await readJsonBody<SessionBody>(req);
+    assertSessionBody(body);
+
+    if (query.get('stream') !== 'true') {
+      return { text: await getEmployeeResponse(body.scenario, body.history) };
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+    const text = await getEmployeeResponse(body.scenario, body.history, (partial) => {
+      res.write(JSON.stringify({ partial }) + '\n');
+    });
+    res.end(JSON.stringify({ final: text }) + '\n');
+  })),
+
+  route('POST', '/api/coach/analysis', proxied('analysis', async ({ req }) => {
+    const body = await readJsonBody<SessionBody & { rubric?: Rubric; diagnosis?: SessionDiagnosis; timing?: SessionTiming }>(req);
+    assertSessionBody(body);
+    return analyzeFullSession(body.scenario, body.history, body.rubric, body.diagnosis, undefined, body.timing);
+  })),
+
+  route('POST', '/api/coach/team-analysis', proxied('teamAnalysis', async ({ req }) => {
+    const body = await readJsonBody<{ records: SessionRecord[] }>(req);
+    if (!Array.isArray(body.records) || body.records.length === 0) {
+      throw new HttpError(400, 'records are required');
+    }
+    return generateTeamAnalysis(body.records);
+  })),
+];
@@ -0,0 +1,42 @@
+import { IncomingMessage } from 'node:http';
+import { TrainingProgram } from '../../types';
+import { deleteProgram, getProgram, listPrograms, saveProgram } from '../db';
+import { HttpError, readJsonBody, route } from '../http';
+import { isAdminRequest, requireAdmin, requireParticipant } from '../auth';
+import { isProgramParticipant } from '../../services/programStore';
+
+const assertProgram = (body: Partial<TrainingProgram>) => {
+  if (!body.id || !body.name || !body.companyName || !Array.isArray(body.steps) || !Array.isArray(body.participants)) {
+    throw new HttpError(400, 'id, name, companyName, steps and participants are required');
+  }
+};
+
+// Participants only see the programs they are enrolled in
+const programReader = (req: IncomingMessage): ((program: TrainingProgram) => boolean) => {
+  if (isAdminRequest(req)) return () => true;
+  const participant = requireParticipant(req);
+  return program => isProgramParticipant(program, participant.userName, participant.companyName || '');
+};
+
+export const programRoutes = [
+  route('GET', '/api/programs', ({ req }) => listPrograms().filter(programReader(req))),
+
+  route('GET', '/api/programs/:id', ({ req, params }) => {
+    const program = getProgram(params.id);
+    if (!program || !programReader(req)(program)) throw new HttpError(404, 'Program not found');
+    return program;
+  }),
+
+  route('PUT', '/api/programs/:id', async ({ req, params }) => {
+    requireAdmin(req);
+    const body = await readJsonBody<TrainingProgram>(req);
+    assertProgram({ ...body, id: params.id });
+    return saveProgram({ ...body, id: params.id });
+  }),
+
+  route('DELETE', '/api/programs/:id', ({ req, params }) => {
+    requireAdmin(req);
+    deleteProgram(params.id);
+    return { deleted: 1 };
+  }),
+];
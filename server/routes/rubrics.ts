@@ -0,0 +1,35 @@
+import { IncomingMessage } from 'node:http';
+import { Rubric } from '../../types';
+import { getRubric, listRubrics, saveRubric } from '../db';
+import { HttpError, readJsonBody, route } from '../http';
+import { isAdminRequest, requireAdmin, requireParticipant } from '../auth';
+
+const assertRubric = (body: Partial<Rubric>) => {
+  if (!body.id || !body.name || typeof body.companyName !== 'string' || !Array.isArray(body.criteria)) {
+    throw new HttpError(400, 'id, name, companyName and criteria are required');
+  }
+};
+
+// Participants only need their company's rubric and the company-wide default
+const rubricReader = (req: IncomingMessage): ((rubric: Rubric) => boolean) => {
+  if (isAdminRequest(req)) return () => true;
+  const participant = requireParticipant(req);
+  return rubric => !rubric.companyName || rubric.companyName.trim().toLowerCase() === (participant.companyName || '').trim().toLowerCase();
+};
+
+export const rubricRoutes = [
+  route('GET', '/api/rubrics', ({ req }) => listRubrics().filter(rubricReader(req))),
+
+  route('GET', '/api/rubrics/:id', ({ req, params }) => {
+    const rubric = getRubric(params.id);
+    if (!rubric || !rubricReader(req)(rubric)) throw new HttpError(404, 'Rubric not found');
+    return rubric;
+  }),
+
+  route('PUT', '/api/rubrics/:id', async ({ req, params }) => {
+    requireAdmin(req);
+    const body = await readJsonBody<Rubric>(req);
+    assertRubric({ ...body, id: params.id });
+    return saveRubric({ ...body, id: params.id });
+  }),
+];
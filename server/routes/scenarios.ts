@@ -0,0 +1,41 @@
+import { Scenario } from '../../types';
+import { deleteScenario, getScenario, listScenarios, saveScenario } from '../db';
+import { HttpError, readJsonBody, route } from '../http';
+import { requireAdmin } from '../auth';
+
+const assertScenario = (body: Partial<Scenario>) => {
+  if (!body.id || !body.title || !body.developmentLevel || !body.initialMessage) {
+    throw new HttpError(400, 'id, title, developmentLevel and initialMessage are required');
+  }
+};
+
+// Anyone may read the library (participants pick from it); only admins change it
+export const scenarioRoutes = [
+  route('GET', '/api/scenarios', () => listScenarios()),
+
+  route('GET', '/api/scenarios/:id', ({ params }) => {
+    const scenario = getScenario(params.id);
+    if (!scenario) throw new HttpError(404, 'Scenario not found');
+    return scenario;
+  }),
+
+  route('POST', '/api/scenarios', async ({ req }) => {
+    requireAdmin(req);
+    const body = await readJsonBody<Scenario>(req);
+    assertScenario(body);
+    return saveScenario(body);
+  }),
+
+  route('PUT', '/api/scenarios/:id', async ({ req, params }) => {
+    requireAdmin(req);
+    const body = await readJsonBody<Scenario>(req);
+    assertScenario({ ...body, id: params.id });
+    return saveScenario({ ...body, id: params.id });
+  }),
+
+  route('DELETE', '/api/scenarios/:id', ({ req, params }) => {
+    requireAdmin(req);
+    deleteScenario(params.id);
+    return { deleted: 1 };
+  }),
+];
@@ -0,0 +1,72 @@
+import { SessionRecord } from '../../types';
+import { isSameParticipant } from '../../services/participantProfile';
+import { deleteSessions, getSession, listSessions, saveSession, updateSessions } from '../db';
+import { HttpError, readJsonBody, route } from '../http';
+import { assertCanWriteSession, isAdminRequest, RequestParticipant, requireAdmin, requireParticipant } from '../auth';
+
+const assertSessionRecord = (body: Partial<SessionRecord>) => {
+  if (!body.id || !body.userName || !body.date || !body.result) {
+    throw new HttpError(400, 'id, userName, date and result are required');
+  }
+};
+
+const isOwnVerifiedSession = (record: SessionRecord, participant: RequestParticipant) =>
+  participant.isVerified && isSameParticipant(record, participant);
+
+export const sessionRoutes = [
+  // ?companyName=&userName=&includeDeleted=true for admins, ?date= for everyone. Participants always get their own
+  // active sessions, and none until their first save has issued them a token (server/auth.ts).
+  route('GET', '/api/sessions', ({ req, query }) => {
+    const date = query.get('date') || undefined;
+    if (!isAdminRequest(req)) {
+      const participant = requireParticipant(req);
+      return participant.isVerified ? listSessions({ participant, date }) : [];
+    }
+    return listSessions({
+      companyName: query.get('companyName') || undefined,
+      userName: query.get('userName') || undefined,
+      date,
+      includeDeleted: query.get('includeDeleted') === 'true',
+    });
+  }),
+
+  route('GET', '/api/sessions/:id', ({ req, params }) => {
+    const record = getSession(params.id);
+    if (!record || (!isAdminRequest(req) && !isOwnVerifiedSession(record, requireParticipant(req)))) {
+      throw new HttpError(404, 'Session not found');
+    }
+    return record;
+  }),
+
+  route('POST', '/api/sessions', async ({ req, res }) => {
+    const body = await readJsonBody<SessionRecord>(req);
+    assertSessionRecord(body);
+    assertCanWriteSession(req, res, body, getSession(body.id));
+    return saveSession(body);
+  }),
+
+  route('PUT', '/api/sessions/:id', async ({ req, res, params }) => {
+    const body = await readJsonBody<SessionRecord>(req);
+    assertSessionRecord({ ...body, id: params.id });
+    assertCanWriteSession(req, res, body, getSession(params.id));
+    return saveSession({ ...body, id: params.id });
+  }),
+
+  // Bulk partial update, e.g. { ids: [...], patch: { isDeleted: true } }
+  route('PATCH', '/api/sessions', async ({ req }) => {
+    requireAdmin(req);
+    const body = await readJsonBody<{ ids: string[]; patch: Partial<SessionRecord> }>(req);
+    if (!Array.isArray(body.ids) || !body.patch) throw new HttpError(400, 'ids and patch are required');
+    updateSessions(body.ids, body.patch);
+    return { updated: body.ids.length };
+  }),
+
+  // Bulk delete: ?ids=a,b,c
+  route('DELETE', '/api/sessions', ({ req, query }) => {
+    requireAdmin(req);
+    const ids = (query.get('ids') || '').split(',').filter(Boolean);
+    if (ids.length === 0) throw new HttpError(400, 'ids query parameter is required');
+    deleteSessions(ids);
+    return { deleted: ids.length };
+  }),
+];
@@ -0,0 +1,39 @@
+import { StoredTeamReport } from '../../types';
+import { deleteTeamReport, getTeamReport, listTeamReports, saveTeamReport } from '../db';
+import { HttpError, readJsonBody, route } from '../http';
+import { requireAdmin } from '../auth';
+
+// Team reports are facilitator-only
+export const teamReportRoutes = [
+  // ?companyName=
+  route('GET', '/api/team-reports', ({ req, query }) => {
+    requireAdmin(req);
+    return listTeamReports(query.get('companyName') || undefined);
+  }),
+
+  route('GET', '/api/team-reports/:id', ({ req, params }) => {
+    requireAdmin(req);
+    const report = getTeamReport(params.id);
+    if (!report) throw new HttpError(404, 'Team report not found');
+    return report;
+  }),
+
+  route('POST', '/api/team-reports', async ({ req }) => {
+    requireAdmin(req);
+    const body = await readJsonBody<Omit<StoredTeamReport, 'id' | 'createdAt'>>(req);
+    if (!body.report || !Array.isArray(body.recordIds)) {
+      throw new HttpError(400, 'report and recordIds are required');
+    }
+    return saveTeamReport({
+      ...body,
+      id: `report-${Date.now()}`,
+      createdAt: new Date().toISOString(),
+    });
+  }),
+
+  route('DELETE', '/api/team-reports/:id', ({ req, params }) => {
+    requireAdmin(req);
+    deleteTeamReport(params.id);
+    return { deleted: 1 };
+  }),
+];
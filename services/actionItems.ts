@@ -0,0 +1,126 @@
+import { ActionItem, ActionItemStatus, SessionRecord, TrackedActionItem } from "../types";
+
+// Action plan items as trackable commitments. They live on their SessionRecord (`actionItems`), so they are
+// stored and synced with the session itself. Records saved before tracking existed get open items derived
+// from `result.actionPlan` on read.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NEXT_MEETING_DAYS = 7; // "다음 1:1 미팅" – assume weekly one-on-ones
+
+export const ACTION_STATUS_LABELS: Record<ActionItemStatus, string> = {
+  open: '시작 전',
+  in_progress: '진행 중',
+  done: '완료',
+};
+
+const KOREAN_NUMBERS: Record<string, number> = { '한': 1, '두': 2, '세': 3, '네': 4, '다섯': 5, '여섯': 6 };
+const WEEKDAYS = ['일', '월', '화', '수', '목', '금', '토'];
+
+export const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+const nextWeekday = (from: Date, weekday: number) => {
+  const diff = (weekday - from.getDay() + 7) % 7 || 7;
+  return addDays(from, diff);
+};
+
+const toNumber = (value: string): number => KOREAN_NUMBERS[value] ?? parseInt(value, 10);
+
+// Best-effort conversion of free-text deadlines ("1주 이내", "다음 1:1 미팅", "매주 금요일", "3월 15일", "within 2 weeks")
+// into a due date, counted from when the plan was made. Returns undefined when the text has no usable time frame.
+export const parseDeadline = (deadline: string, from: Date): string | undefined => {
+  const text = deadline.trim().toLowerCase();
+  if (!text) return undefined;
+
+  const iso = text.match(/(\d{4})[-./]\s*(\d{1,2})[-./]\s*(\d{1,2})/);
+  if (iso) {
+    return toDateString(new Date(parseInt(iso[1], 10), parseInt(iso[2], 10) - 1, parseInt(iso[3], 10)));
+  }
+
+  const monthDay = text.match(/(\d{1,2})\s*월\s*(\d{1,2})\s*일/);
+  if (monthDay) {
+    const date = new Date(from.getFullYear(), parseInt(monthDay[1], 10) - 1, parseInt(monthDay[2], 10));
+    if (date.getTime() < from.getTime() - DAY_MS) date.setFullYear(date.getFullYear() + 1);
+    return toDateString(date);
+  }
+
+  if (text.includes('하루')) return toDateString(addDays(from, 1));
+
+  const relative = text.match(/(\d+|한|두|세|네|다섯|여섯)\s*(일|주|개월|달|days?|weeks?|months?)/);
+  if (relative) {
+    const amount = toNumber(relative[1]);
+    const unit = relative[2];
+    if (unit === '일' || unit.startsWith('day')) return toDateString(addDays(from, amount));
+    if (unit === '주' || unit.startsWith('week')) return toDateString(addDays(from, amount * 7));
+    return toDateString(addMonths(from, amount));
+  }
+
+  if (text.includes('오늘') || text.includes('today')) return toDateString(from);
+  if (text.includes('내일') || text.includes('tomorrow')) return toDateString(addDays(from, 1));
+
+  const weekday = text.match(/([일월화수목금토])요일/);
+  if (weekday) return toDateString(nextWeekday(from, WEEKDAYS.indexOf(weekday[1])));
+
+  if (text.includes('미팅') || text.includes('1:1') || text.includes('meeting')) return toDateString(addDays(from, NEXT_MEETING_DAYS));
+  if (text.includes('이번 주') || text.includes('this week')) return toDateString(nextWeekday(addDays(from, -1), 5)); // Friday
+  if (text.includes('다음 주') || text.includes('매주') || text.includes('next week') || text.includes('weekly')) return toDateString(addDays(from, 7));
+  if (text.includes('다음 달') || text.includes('next month')) return toDateString(addMonths(from, 1));
+  if (text.includes('이번 달') || text.includes('월말') || text.includes('end of month')) {
+    return toDateString(new Date(from.getFullYear(), from.getMonth() + 1, 0));
+  }
+  if (text.includes('분기') || text.includes('quarter')) {
+    const quarterEndMonth = Math.floor(from.getMonth() / 3) * 3 + 3;
+    return toDateString(new Date(from.getFullYear(), quarterEndMonth, 0));
+  }
+  return undefined;
+};
+
+export const createTrackedActionItems = (actionPlan: ActionItem[], recordId: string, createdAt: string): TrackedActionItem[] =>
+  actionPlan.map((item, idx) => ({
+    ...item,
+    id: `${recordId}-action-${idx}`,
+    status: 'open',
+    progress: 0,
+    dueDate: parseDeadline(item.deadline, new Date(createdAt)),
+    updatedAt: createdAt,
+  }));
+
+export const getTrackedActionItems = (record: SessionRecord): TrackedActionItem[] =>
+  record.actionItems || createTrackedActionItems(record.result.actionPlan || [], record.id, record.date);
+
+// Returns the record with one item updated (legacy records get their derived items materialized)
+export const updateActionItem = (
+  record: SessionRecord,
+  itemId: string,
+  patch: Partial<Pick<TrackedActionItem, 'status' | 'progress' | 'progressNote'>>
+): SessionRecord => ({
+  ...record,
+  actionItems: getTrackedActionItems(record).map(item => item.id === itemId
+    ? { ...item, ...patch, updatedAt: new Date().toISOString() }
+    : item
+  ),
+});
+
+export const isOverdue = (item: TrackedActionItem, today: string = toDateString(new Date())): boolean =>
+  item.status !== 'done' && !!item.dueDate && item.dueDate < today;
+
+export interface ActionItemEntry {
+  record: SessionRecord;
+  item: TrackedActionItem;
+}
+
+// Unfinished items across records, earliest due first (items without a due date last)
+export const collectOpenActionItems = (records: SessionRecord[]): ActionItemEntry[] =>
+  records
+    .filter(r => !r.isDeleted)
+    .flatMap(record => getTrackedActionItems(record).map(item => ({ record, item })))
+    .filter(({ item }) => item.status !== 'done')
+    .sort((a, b) => (a.item.dueDate || '9999').localeCompare(b.item.dueDate || '9999'));
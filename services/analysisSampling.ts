@@ -0,0 +1,71 @@
+import { AnalysisResult, RubricBreakdown, StyleKey } from "../types";
+import { levelForScore, weightedScore } from "./rubrics";
+import { STYLE_KEYS, toStyleDistribution } from "./sliiScoring";
+
+// Multi-sample analysis: the assessor runs ANALYSIS_SAMPLES times and the runs are combined with medians,
+// so one noisy LLM call cannot swing a participant's score. The spread is kept as AnalysisResult.confidence.
+
+const MAX_SAMPLES = 5;
+
+export const getAnalysisSampleCount = (): number => {
+  const parsed = parseInt(process.env.ANALYSIS_SAMPLES || '', 10);
+  return Number.isFinite(parsed) ? Math.min(MAX_SAMPLES, Math.max(1, parsed)) : 1;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Primary style counts double; the two styles with the most votes win
+const reconcileStyles = (samples: AnalysisResult[]): string[] => {
+  const votes = new Map<string, number>();
+  samples.forEach(sample => {
+    const styles = Array.isArray(sample.leaderStyleIdentified) ? sample.leaderStyleIdentified : [sample.leaderStyleIdentified];
+    styles.slice(0, 2).forEach((style, idx) => votes.set(style, (votes.get(style) || 0) + (idx === 0 ? 2 : 1)));
+  });
+  return [...votes.entries()].sort((a, b) => b[1] - a[1]).slice(0, 2).map(([style]) => style);
+};
+
+// Median per criterion; rationales come from the representative run
+const combineBreakdowns = (representative: RubricBreakdown, samples: AnalysisResult[]): RubricBreakdown => ({
+  ...representative,
+  criteria: representative.criteria.map(criterion => {
+    const score = Math.round(median(samples.map(s =>
+      s.rubricBreakdown?.criteria.find(c => c.key === criterion.key)?.score ?? criterion.score)));
+    return { ...criterion, score, level: levelForScore(score) };
+  }),
+});
+
+export const combineAnalysisSamples = (samples: AnalysisResult[]): AnalysisResult => {
+  const scores = samples.map(s => s.score);
+  const medianScore = Math.round(median(scores));
+
+  const medians = { S1: 0, S2: 0, S3: 0, S4: 0 } as Record<StyleKey, number>;
+  STYLE_KEYS.forEach(key => { medians[key] = median(samples.map(s => s.styleScore?.[key] || 0)); });
+  const medianTotal = STYLE_KEYS.reduce((acc, key) => acc + medians[key], 0);
+
+  const matchVotes = samples.filter(s => s.isMatch).length;
+  // Feedback text, turn critiques and action plan come from the run closest to the median score
+  const representative = samples.reduce((best, s) => Math.abs(s.score - medianScore) < Math.abs(best.score - medianScore) ? s : best);
+  // With a rubric the total stays the weighted average of the (median) criterion scores
+  const rubricBreakdown = representative.rubricBreakdown && combineBreakdowns(representative.rubricBreakdown, samples);
+  const score = rubricBreakdown ? weightedScore(rubricBreakdown.criteria) : medianScore;
+  const isMatch = matchVotes * 2 === samples.length ? representative.isMatch : matchVotes * 2 > samples.length;
+
+  return {
+    ...representative,
+    leaderStyleIdentified: reconcileStyles(samples),
+    styleScore: toStyleDistribution(medians, medianTotal),
+    isMatch,
+    score,
+    rubricBreakdown,
+    confidence: {
+      sampleCount: samples.length,
+      scores,
+      scoreMargin: Math.round((Math.max(...scores) - Math.min(...scores)) / 2),
+      matchVotes,
+    },
+  };
+};
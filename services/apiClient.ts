@@ -0,0 +1,116 @@
+import { Rubric, Scenario, StoredTeamReport, TeamAnalysisResult, TrainingProgram } from "../types";
+
+// Client for the self-hosted API in server/. Enabled with SESSION_STORE=api and API_BASE_URL.
+
+export const isApiStorageEnabled = (): boolean => (process.env.SESSION_STORE || '').trim().toLowerCase() === 'api';
+
+const getApiBaseUrl = () => (process.env.API_BASE_URL || 'http://localhost:8787').replace(/\/+$/, '');
+
+// Caller identity for server/auth.ts: the participant from the start screen, plus the admin token while a facilitator is signed in
+let participantHeader = '';
+let adminToken = '';
+
+// Tokens the server issued with each participant's first saved session, keyed by X-SLII-Participant (lowercased).
+// Kept in this browser only: on another device the participant's sessions stay hidden until a facilitator releases the name.
+const PARTICIPANT_TOKENS_KEY = 'slii_participant_tokens';
+const PARTICIPANT_TOKEN_HEADER = 'X-SLII-Participant-Token';
+
+const loadParticipantTokens = (): Record<string, string> => {
+  try {
+    const saved = localStorage.getItem(PARTICIPANT_TOKENS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to load participant tokens", e);
+    return {};
+  }
+};
+
+const saveParticipantToken = (token: string) => {
+  const tokens = { ...loadParticipantTokens(), [participantHeader.toLowerCase()]: token };
+  localStorage.setItem(PARTICIPANT_TOKENS_KEY, JSON.stringify(tokens));
+};
+
+export const setApiParticipant = (companyName: string, userName: string) => {
+  participantHeader = `${encodeURIComponent(companyName.trim())}/${encodeURIComponent(userName.trim())}`;
+};
+
+export const setApiAdminToken = (token?: string) => {
+  adminToken = token || '';
+};
+
+const getIdentityHeaders = (token = adminToken): Record<string, string> => {
+  const participantToken = participantHeader ? loadParticipantTokens()[participantHeader.toLowerCase()] : undefined;
+  return {
+    ...(participantHeader ? { 'X-SLII-Participant': participantHeader } : {}),
+    ...(participantToken ? { [PARTICIPANT_TOKEN_HEADER]: participantToken } : {}),
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+};
+
+export const apiRequest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const res = await fetch(`${getApiBaseUrl()}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...getIdentityHeaders(), ...(init.headers || {}) },
+  });
+  // Issued with the participant's first saved session; kept even if the rest of the request failed
+  const issuedToken = res.headers.get(PARTICIPANT_TOKEN_HEADER);
+  if (issuedToken && participantHeader) saveParticipantToken(issuedToken);
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(`${res.status} ${body?.error || res.statusText}`);
+  }
+  return res.json() as Promise<T>;
+};
+
+// True if the server accepts the token (checked before it is stored with the admin session)
+export const checkApiAdminToken = async (token: string): Promise<boolean> => {
+  const res = await fetch(`${getApiBaseUrl()}/api/auth/admin`, { headers: getIdentityHeaders(token) });
+  return res.ok;
+};
+
+// --- Scenarios ---
+
+export const fetchScenarios = () => apiRequest<Scenario[]>('/api/scenarios');
+
+export const saveScenarioToServer = (scenario: Scenario) =>
+  apiRequest<Scenario>(`/api/scenarios/${encodeURIComponent(scenario.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(scenario),
+  });
+
+export const deleteScenarioFromServer = (id: string) =>
+  apiRequest<{ deleted: number }>(`/api/scenarios/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+// --- Training programs ---
+
+export const fetchPrograms = () => apiRequest<TrainingProgram[]>('/api/programs');
+
+export const saveProgramToServer = (program: TrainingProgram) =>
+  apiRequest<TrainingProgram>(`/api/programs/${encodeURIComponent(program.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(program),
+  });
+
+export const deleteProgramFromServer = (id: string) =>
+  apiRequest<{ deleted: number }>(`/api/programs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+// --- Assessment rubrics ---
+
+export const fetchRubrics = () => apiRequest<Rubric[]>('/api/rubrics');
+
+export const saveRubricToServer = (rubric: Rubric) =>
+  apiRequest<Rubric>(`/api/rubrics/${encodeURIComponent(rubric.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(rubric),
+  });
+
+// --- Team reports ---
+
+export const fetchTeamReports = (companyName?: string) =>
+  apiRequest<StoredTeamReport[]>(`/api/team-reports${companyName ? `?companyName=${encodeURIComponent(companyName)}` : ''}`);
+
+export const saveTeamReportToServer = (report: TeamAnalysisResult, recordIds: string[], companyName?: string) =>
+  apiRequest<StoredTeamReport>('/api/team-reports', {
+    method: 'POST',
+    body: JSON.stringify({ report, recordIds, companyName }),
+  });
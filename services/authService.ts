@@ -0,0 +1,197 @@
+import { AdminAccount, AdminSession } from "../types";
+
+// Admin (facilitator) accounts stored in localStorage with salted PBKDF2 hashes via WebCrypto.
+// Plain passwords are never persisted; sessions expire on their own after SESSION_TTL_MS.
+
+const ACCOUNTS_KEY = 'slii_admin_accounts';
+const SESSION_KEY = 'slii_admin_session';
+
+const PBKDF2_ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000; // 8 hours
+export const MIN_PASSWORD_LENGTH = 8;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return window.btoa(binary);
+};
+
+const fromBase64 = (encoded: string): Uint8Array => {
+  const binary = window.atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const derivePasswordHash = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: salt.buffer as ArrayBuffer, iterations, hash: 'SHA-256' },
+    keyMaterial,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+// Compare every byte so the time taken doesn't reveal how much of the hash matched
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
+
+const loadAccounts = (): AdminAccount[] => {
+  try {
+    const saved = localStorage.getItem(ACCOUNTS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load admin accounts", e);
+    return [];
+  }
+};
+
+const saveAccounts = (accounts: AdminAccount[]) => {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+};
+
+const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+const validatePassword = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다.`);
+  }
+};
+
+const startSession = (account: AdminAccount): AdminSession => {
+  const session: AdminSession = {
+    accountId: account.id,
+    username: account.username,
+    displayName: account.displayName,
+    expiresAt: Date.now() + SESSION_TTL_MS,
+  };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  return session;
+};
+
+export const hasAdminAccounts = (): boolean => loadAccounts().length > 0;
+
+// Public view of accounts (no hashes)
+export const listAdminAccounts = (): Pick<AdminAccount, 'id' | 'username' | 'displayName' | 'createdAt'>[] =>
+  loadAccounts().map(({ id, username, displayName, createdAt }) => ({ id, username, displayName, createdAt }));
+
+export const createAdminAccount = async (username: string, displayName: string, password: string): Promise<AdminAccount> => {
+  const normalized = normalizeUsername(username);
+  if (!normalized) {
+    throw new Error("아이디를 입력해주세요.");
+  }
+  validatePassword(password);
+
+  const accounts = loadAccounts();
+  if (accounts.some(a => a.username === normalized)) {
+    throw new Error("이미 존재하는 아이디입니다.");
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derivePasswordHash(password, salt, PBKDF2_ITERATIONS);
+  const account: AdminAccount = {
+    id: `admin-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    username: normalized,
+    displayName: displayName.trim() || normalized,
+    salt: toBase64(salt),
+    passwordHash: toBase64(hash),
+    iterations: PBKDF2_ITERATIONS,
+    createdAt: new Date().toISOString(),
+  };
+  saveAccounts([...accounts, account]);
+  return account;
+};
+
+// First-run setup: creates the initial account and signs it in
+export const setupFirstAdmin = async (username: string, displayName: string, password: string): Promise<AdminSession> => {
+  if (hasAdminAccounts()) {
+    throw new Error("관리자 계정이 이미 설정되어 있습니다.");
+  }
+  const account = await createAdminAccount(username, displayName, password);
+  return startSession(account);
+};
+
+const verifyPassword = async (account: AdminAccount, password: string): Promise<boolean> => {
+  const hash = await derivePasswordHash(password, fromBase64(account.salt), account.iterations);
+  return constantTimeEqual(hash, fromBase64(account.passwordHash));
+};
+
+// Returns a new session, or null if the credentials don't match
+export const loginAdmin = async (username: string, password: string): Promise<AdminSession | null> => {
+  const account = loadAccounts().find(a => a.username === normalizeUsername(username));
+  if (!account) return null;
+  const valid = await verifyPassword(account, password);
+  return valid ? startSession(account) : null;
+};
+
+export const changeAdminPassword = async (accountId: string, currentPassword: string, newPassword: string): Promise<void> => {
+  const accounts = loadAccounts();
+  const account = accounts.find(a => a.id === accountId);
+  if (!account) {
+    throw new Error("계정을 찾을 수 없습니다.");
+  }
+  if (!(await verifyPassword(account, currentPassword))) {
+    throw new Error("현재 비밀번호가 일치하지 않습니다.");
+  }
+  validatePassword(newPassword);
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derivePasswordHash(newPassword, salt, PBKDF2_ITERATIONS);
+  saveAccounts(accounts.map(a => a.id === accountId
+    ? { ...a, salt: toBase64(salt), passwordHash: toBase64(hash), iterations: PBKDF2_ITERATIONS }
+    : a
+  ));
+};
+
+export const deleteAdminAccount = (accountId: string, currentSession: AdminSession) => {
+  if (accountId === currentSession.accountId) {
+    throw new Error("현재 로그인한 계정은 삭제할 수 없습니다.");
+  }
+  saveAccounts(loadAccounts().filter(a => a.id !== accountId));
+};
+
+// Returns the stored session if it hasn't expired; expired sessions are cleared
+export const getActiveAdminSession = (): AdminSession | null => {
+  try {
+    const saved = localStorage.getItem(SESSION_KEY);
+    if (!saved) return null;
+    const session: AdminSession = JSON.parse(saved);
+    const accountExists = loadAccounts().some(a => a.id === session.accountId);
+    if (session.expiresAt <= Date.now() || !accountExists) {
+      localStorage.removeItem(SESSION_KEY);
+      return null;
+    }
+    return session;
+  } catch (e) {
+    console.error("Failed to read admin session", e);
+    return null;
+  }
+};
+
+// API mode: keeps the server's admin token with the session so the dashboard can read team data after a reload
+export const attachApiToken = (session: AdminSession, apiToken: string): AdminSession => {
+  const updated = { ...session, apiToken };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(updated));
+  return updated;
+};
+
+export const logoutAdmin = () => {
+  localStorage.removeItem(SESSION_KEY);
+};
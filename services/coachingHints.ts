@@ -0,0 +1,56 @@
+import { DevelopmentLevel, Message, Scenario, SessionRecord, StyleKey } from "../types";
+import { classifyTurn, HIGH_BEHAVIOR_THRESHOLD, SLII_LEVELS, SLII_STYLES } from "./sliiScoring";
+import { simulateFollower } from "./followerDynamics";
+import { findGoalForText } from "./scenarioGoals";
+import { findConcernEarnedTurn } from "./employeePersona";
+
+// Practice-mode coaching hints. Computed with the rule engine after every manager turn, so they are instant and
+// need no extra LLM call; the full assessment still happens at the end of the session.
+
+export interface CoachingHint {
+  messageId: string; // The manager turn the hint is about
+  level: DevelopmentLevel; // Level the turn was judged against (after transitions, per goal)
+  neededStyle: StyleKey;
+  turnStyle: StyleKey;
+  isOnStyle: boolean;
+  text: string;
+}
+
+const CONCERN_NUDGE_AFTER_TURNS = 3;
+
+export const getCoachingHint = (scenario: Scenario, history: Message[]): CoachingHint | null => {
+  const managerTurns = history.filter(m => m.role === 'user' && m.text.trim() !== '');
+  const last = managerTurns[managerTurns.length - 1];
+  if (!last) return null;
+
+  // The level the employee was at when the turn was sent, or the level for the goal it was about
+  const upToTurn = history.slice(0, history.indexOf(last) + 1);
+  const goal = scenario.goals?.length ? findGoalForText(last.text, scenario.goals) : undefined;
+  const level = goal?.developmentLevel || simulateFollower(scenario, upToTurn).pop()!.level;
+  const neededStyle = SLII_LEVELS[level].needs;
+  const needed = SLII_STYLES[neededStyle];
+
+  const turn = classifyTurn(last);
+  const parts: string[] = [];
+  const highDirective = turn.directive >= HIGH_BEHAVIOR_THRESHOLD;
+  const highSupportive = turn.supportive >= HIGH_BEHAVIOR_THRESHOLD;
+  if (needed.directive === 'High' && !highDirective) parts.push('목표·방법·기한을 더 구체적으로 제시해 보세요.');
+  if (needed.directive === 'Low' && highDirective) parts.push('지시를 줄이고 방법은 팀원에게 맡겨 보세요.');
+  if (needed.supportive === 'High' && !highSupportive) parts.push('의견을 묻거나 격려하는 말을 더해 보세요.');
+  if (needed.supportive === 'Low' && highSupportive) parts.push('지나친 관여보다 결과를 믿고 맡기는 편이 좋습니다.');
+
+  const subject = `${goal ? `"${goal.title}"에서 ` : ''}${level} 팀원`;
+  const text = parts.length === 0
+    ? `좋습니다. ${subject}에게 맞는 ${neededStyle}(${needed.name}) 행동입니다.`
+    : `${turn.style} 행동입니다. ${subject}에게는 ${neededStyle}(${needed.name})가 필요합니다. ${parts.join(' ')}`;
+
+  const concern = scenario.persona?.hiddenConcern;
+  const nudge = concern && managerTurns.length >= CONCERN_NUDGE_AFTER_TURNS && findConcernEarnedTurn(history) === null
+    ? ' 팀원이 말하지 않은 고민이 있을 수 있습니다. 열린 질문으로 물어보세요.'
+    : '';
+
+  return { messageId: last.id, level, neededStyle, turnStyle: turn.style, isOnStyle: parts.length === 0, text: text + nudge };
+};
+
+export const isHintedSession = (record: SessionRecord): boolean =>
+  !!record.coachingHints?.enabled && record.coachingHints.shownTurns > 0;
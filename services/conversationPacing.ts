@@ -0,0 +1,28 @@
+import { Message, MessagePacing, PacingSummary } from "../types";
+
+// Pacing of the manager's answers: how long they took to respond and whether they cut the employee off.
+// Recorded by ChatInterface on each manager message; summarized here for the assessor and the report.
+
+export const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(1)}초`;
+
+// `inputMode` limits the summary to spoken or typed turns
+export const summarizePacing = (history: Message[], inputMode?: MessagePacing['inputMode']): PacingSummary | null => {
+  const paced = history.flatMap(m => (m.role === 'user' && m.pacing && (!inputMode || m.pacing.inputMode === inputMode) ? [m.pacing] : []));
+  if (paced.length === 0) return null;
+  const latencies = paced.map(p => p.responseLatencyMs);
+  return {
+    pacedTurns: paced.length,
+    voiceTurns: paced.filter(p => p.inputMode === 'voice').length,
+    averageLatencyMs: Math.round(latencies.reduce((acc, l) => acc + l, 0) / latencies.length),
+    longestLatencyMs: Math.max(...latencies),
+    interruptions: paced.filter(p => p.interruptedReply).length,
+  };
+};
+
+// Annotation for a spoken turn in the assessor transcript. Typed turns get none: their latency includes typing time.
+export const describeTurnPacing = (pacing?: MessagePacing): string => {
+  if (!pacing || pacing.inputMode !== 'voice') return '';
+  const parts = [`spoken, answered after ${(pacing.responseLatencyMs / 1000).toFixed(1)}s`];
+  if (pacing.interruptedReply) parts.push('interrupted the employee');
+  return ` (${parts.join(', ')})`;
+};
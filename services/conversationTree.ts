@@ -0,0 +1,71 @@
+import { AnalysisResult, BranchResult, ConversationBranch, ConversationTree, Message } from "../types";
+
+// Rewind & branch. Each branch stores only the messages after its fork point and points at the branch it was forked
+// from, so a branch's full history is its parent's history up to the fork plus its own messages.
+
+const newBranchId = () => `branch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createConversationTree = (messages: Message[]): ConversationTree => {
+  const root: ConversationBranch = { id: newBranchId(), label: '대화 1', parentId: null, forkAt: 0, messages };
+  return { branches: [root], activeBranchId: root.id };
+};
+
+const findBranch = (tree: ConversationTree, branchId: string): ConversationBranch => {
+  const branch = tree.branches.find(b => b.id === branchId);
+  if (!branch) throw new Error(`Unknown conversation branch: ${branchId}`);
+  return branch;
+};
+
+export const getBranchHistory = (tree: ConversationTree, branchId: string): Message[] => {
+  const branch = findBranch(tree, branchId);
+  return branch.parentId
+    ? [...getBranchHistory(tree, branch.parentId).slice(0, branch.forkAt), ...branch.messages]
+    : branch.messages;
+};
+
+// Stores the active conversation back into its branch (only the part after the fork is the branch's own)
+export const saveBranchHistory = (tree: ConversationTree, branchId: string, history: Message[]): ConversationTree => ({
+  ...tree,
+  branches: tree.branches.map(b => b.id === branchId ? { ...b, messages: history.slice(b.parentId ? b.forkAt : 0) } : b),
+});
+
+// New active branch that keeps everything before `messageId` (a manager message) of the given branch
+export const forkBranch = (tree: ConversationTree, fromBranchId: string, messageId: string): ConversationTree => {
+  const forkAt = getBranchHistory(tree, fromBranchId).findIndex(m => m.id === messageId);
+  if (forkAt < 0) throw new Error(`Message ${messageId} is not in branch ${fromBranchId}`);
+  const branch: ConversationBranch = {
+    id: newBranchId(),
+    label: `대화 ${tree.branches.length + 1}`,
+    parentId: fromBranchId,
+    forkAt,
+    messages: [],
+  };
+  return { branches: [...tree.branches, branch], activeBranchId: branch.id };
+};
+
+// Branches the participant actually tried: the original, plus forks with at least one manager message of their own
+export const getPlayedBranches = (tree: ConversationTree): ConversationBranch[] =>
+  tree.branches.filter(b => b.parentId === null || b.messages.some(m => m.role === 'user'));
+
+// 1-based manager turn at which `history` first differs from `reference`, or null if it never does
+export const findDivergenceTurn = (history: Message[], reference: Message[]): { turn: number; message: Message } | null => {
+  const managerTurns = history.filter(m => m.role === 'user');
+  const referenceTurns = reference.filter(m => m.role === 'user');
+  const index = managerTurns.findIndex((m, i) => referenceTurns[i]?.id !== m.id);
+  return index < 0 ? null : { turn: index + 1, message: managerTurns[index] };
+};
+
+export const toBranchResult = (branch: ConversationBranch, result: AnalysisResult, history: Message[], finalHistory: Message[], isFinal: boolean): BranchResult => {
+  const divergence = isFinal ? null : findDivergenceTurn(history, finalHistory);
+  return {
+    branchId: branch.id,
+    label: branch.label,
+    isFinal,
+    divergedAtTurn: divergence?.turn ?? null,
+    openingLine: divergence?.message.text || '',
+    score: result.score,
+    primaryStyle: result.leaderStyleIdentified[0] || 'Unknown',
+    isMatch: result.isMatch,
+    summaryFeedback: result.summaryFeedback,
+  };
+};
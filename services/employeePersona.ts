@@ -0,0 +1,63 @@
+import { ConcernDiscovery, EmployeePersona, Message } from "../types";
+import { classifyTurn } from "./sliiScoring";
+
+// Persona depth for the roleplay. The hidden concern is gated on the leader's behavior: the employee only shares it
+// after enough turns that ask for their view or listen, so the leader has to earn it rather than stumble on it.
+
+export const CONCERN_REVEAL_TURNS = 2;
+
+// A turn "earns" trust when it asks for input or listens/empathizes
+const isEarningTurn = (message: Message): boolean =>
+  classifyTurn(message).behaviors?.some(b => b === 'asking_input' || b === 'listening') ?? false;
+
+// 1-based manager turn at which the concern may be shared, or null if not (yet) earned
+export const findConcernEarnedTurn = (history: Message[]): number | null => {
+  const managerTurns = history.filter(m => m.role === 'user' && m.text.trim() !== '');
+  let earned = 0;
+  for (let i = 0; i < managerTurns.length; i++) {
+    if (isEarningTurn(managerTurns[i])) earned++;
+    if (earned >= CONCERN_REVEAL_TURNS) return i + 1;
+  }
+  return null;
+};
+
+// Roleplay prompt section
+export const describePersona = (persona: EmployeePersona, history: Message[]): string => {
+  const lines = [
+    `Personality: ${persona.traits.join(', ')}.`,
+    `Communication style: ${persona.communicationStyle}.`,
+    `Tenure: ${persona.tenure}.`,
+  ];
+  if (persona.hiddenConcern) {
+    lines.push(findConcernEarnedTurn(history) !== null
+      ? `Hidden concern: ${persona.hiddenConcern}. The manager has earned your trust; you may now open up about it if it fits.`
+      : `Hidden concern: ${persona.hiddenConcern}. Do NOT state it yet. At most hint at it indirectly; share it only after the manager asks open questions and listens.`);
+  }
+  return lines.join('\n    ');
+};
+
+// Assessor prompt section
+export const describeConcernForAssessor = (persona: EmployeePersona): string =>
+  `The employee had a hidden concern the manager was meant to surface: "${persona.hiddenConcern}".`;
+
+export interface RawConcernDiscovery {
+  uncovered: boolean;
+  evidence: string;
+}
+
+// Assessor verdict when available, otherwise whether the simulator was allowed to share it
+export const toConcernDiscovery = (persona: EmployeePersona, history: Message[], raw?: RawConcernDiscovery): ConcernDiscovery => {
+  const earnedAtTurn = findConcernEarnedTurn(history);
+  return {
+    concern: persona.hiddenConcern || '',
+    earnedAtTurn,
+    uncovered: raw ? !!raw.uncovered : earnedAtTurn !== null,
+    evidence: raw?.evidence || (earnedAtTurn !== null
+      ? `${earnedAtTurn}번째 발화까지 질문과 경청으로 팀원이 속마음을 털어놓을 수 있었습니다.`
+      : '팀원의 의견을 묻거나 경청하는 발화가 부족해 숨은 고민이 드러나지 않았습니다.'),
+  };
+};
+
+// Public part of the persona shown to the participant
+export const summarizePersona = (persona: EmployeePersona): string =>
+  [persona.tenure, persona.traits.join(', '), persona.communicationStyle].filter(Boolean).join(' · ');
@@ -0,0 +1,104 @@
+import { AdaptationResult, DevelopmentLevel, FollowerState, LevelSegment, LevelTransition, Message, Scenario, TurnClassification } from "../types";
+import { classifyTurn, HIGH_BEHAVIOR_THRESHOLD, SLII_LEVELS, STYLE_KEYS } from "./sliiScoring";
+
+// Dynamic followers. The employee's hidden competence/commitment is replayed from the conversation on every call
+// (so nothing extra is stored while chatting): each manager turn is classified with the rule engine, nudges the state,
+// and may fire one of the scenario's level transitions.
+
+const LEVEL_BASELINES: Record<DevelopmentLevel, { competence: number; commitment: number }> = {
+  [DevelopmentLevel.D1]: { competence: 2, commitment: 8 },
+  [DevelopmentLevel.D2]: { competence: 3, commitment: 3 },
+  [DevelopmentLevel.D3]: { competence: 7, commitment: 4 },
+  [DevelopmentLevel.D4]: { competence: 9, commitment: 9 },
+};
+
+const clampState = (value: number) => Math.max(0, Math.min(10, value));
+
+const countsTowards = (transition: LevelTransition, turn: TurnClassification) =>
+  (!transition.triggerStyle || turn.style === transition.triggerStyle) &&
+  (!transition.triggerBehavior || !!turn.behaviors?.includes(transition.triggerBehavior));
+
+// State before the first manager turn, then one entry per manager turn
+export const simulateFollower = (scenario: Scenario, history: Message[]): FollowerState[] => {
+  const transitions = scenario.transitions || [];
+  let state: FollowerState = { turn: 0, level: scenario.developmentLevel, ...LEVEL_BASELINES[scenario.developmentLevel] };
+  const states = [state];
+  let streaks = transitions.map(() => 0);
+
+  history
+    .filter(m => m.role === 'user' && m.text.trim() !== '')
+    .forEach((message, idx) => {
+      const turn = classifyTurn(message);
+      const needed = SLII_LEVELS[state.level].needs;
+      const distance = Math.abs(STYLE_KEYS.indexOf(turn.style) - STYLE_KEYS.indexOf(needed));
+      // The right style builds commitment, an opposite one erodes it; direction teaches a follower still learning
+      let next: FollowerState = {
+        turn: idx + 1,
+        messageId: message.id,
+        level: state.level,
+        competence: clampState(state.competence + (turn.directive >= HIGH_BEHAVIOR_THRESHOLD && state.competence < 7 ? 0.5 : 0)),
+        commitment: clampState(state.commitment + (distance === 0 ? 1 : distance >= 2 ? -1 : 0)),
+      };
+
+      streaks = transitions.map((t, i) => t.from === state.level && countsTowards(t, turn) ? streaks[i] + 1 : 0);
+      const fired = transitions.find((t, i) => t.from === state.level && streaks[i] >= Math.max(1, t.turns));
+      if (fired) {
+        next = { ...next, level: fired.to, ...LEVEL_BASELINES[fired.to], transitionedFrom: state.level, note: fired.note };
+        streaks = transitions.map(() => 0);
+      }
+
+      state = next;
+      states.push(state);
+    });
+
+  return states;
+};
+
+// Hidden-state section of the roleplay prompt
+export const describeFollowerState = (state: FollowerState): string => [
+  `Your inner state right now (never state it explicitly): competence ${state.competence}/10, commitment ${state.commitment}/10.`,
+  state.transitionedFrom && `You have just moved from ${state.transitionedFrom} to ${state.level}${state.note ? `: ${state.note}` : ''}. Let it show gradually.`,
+].filter(Boolean).join('\n    ');
+
+// Manager turn t is answered to the follower as they were before it, i.e. trajectory[t - 1]
+const toSegments = (trajectory: FollowerState[], classifications: TurnClassification[]): LevelSegment[] => {
+  const byMessage = new Map(classifications.map(c => [c.messageId, c]));
+  const segments: LevelSegment[] = [];
+  let matches = 0;
+
+  trajectory.slice(1).forEach(state => {
+    const level = trajectory[state.turn - 1].level;
+    const neededStyle = SLII_LEVELS[level].needs;
+    const style = state.messageId ? byMessage.get(state.messageId)?.style : undefined;
+    let segment = segments[segments.length - 1];
+    if (!segment || segment.level !== level) {
+      segment = { level, neededStyle, startTurn: state.turn, endTurn: state.turn, matchRate: 0, turnsToAdapt: null };
+      segments.push(segment);
+      matches = 0;
+    }
+    segment.endTurn = state.turn;
+    if (style === neededStyle) {
+      matches++;
+      if (segment.turnsToAdapt === null) segment.turnsToAdapt = state.turn - segment.startTurn + 1;
+    }
+    segment.matchRate = Math.round((matches / (segment.endTurn - segment.startTurn + 1)) * 100);
+  });
+
+  return segments;
+};
+
+// Level periods for the assessor prompt, e.g. "D2 (turns 1-3) → D3 (turns 4-6)"
+export const describeTrajectory = (trajectory: FollowerState[]): string =>
+  toSegments(trajectory, []).map(s => `${s.level} (turns ${s.startTurn}-${s.endTurn})`).join(' → ');
+
+export const assessAdaptation = (trajectory: FollowerState[], classifications: TurnClassification[]): AdaptationResult => {
+  const segments = toSegments(trajectory, classifications);
+  const afterChange = segments.slice(1);
+  return {
+    trajectory,
+    segments,
+    score: afterChange.length === 0
+      ? null
+      : Math.round(afterChange.reduce((acc, s) => acc + s.matchRate, 0) / afterChange.length),
+  };
+};
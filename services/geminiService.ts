@@ -1,12 +1,19 @@
-import { GoogleGenAI, Type, Schema, HarmCategory, HarmBlockThreshold, GenerateContentResponse } from "@google/genai";
-import { AnalysisResult, DevelopmentLevel, Scenario, Message, SessionRecord, TeamAnalysisResult } from "../types";
-
-// Helper to safely get the AI client
-const getAIClient = () => {
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
-};
-
-const modelFlash = 'gemini-2.5-flash';
+import { Type, Schema } from "@google/genai";
+import { AnalysisResult, ConversationTree, DevelopmentLevel, Rubric, Scenario, Message, SessionDiagnosis, SessionRecord, SessionTiming, TeamAnalysisResult } from "../types";
+import { getProvider, isMockMode, isProxyMode, LLMMessage } from "./llmProvider";
+import { proxyAnalyzeSession, proxyEmployeeResponse, proxyGenerateScenarios, proxyTeamAnalysis } from "./proxyService";
+import { formatNumberedTranscript, linkTurnsToMessages } from "./transcriptLinker";
+import { combineAnalysisSamples, getAnalysisSampleCount } from "./analysisSampling";
+import { describeDiagnosis, gradeDiagnosis } from "./selfDiagnosis";
+import { assessAdaptation, describeFollowerState, describeTrajectory, simulateFollower } from "./followerDynamics";
+import { describeGoalsForAssessor, describeGoalsForEmployee, findGoalForText, RawGoalAssessment, scoreGoalsByRules, toGoalResults } from "./scenarioGoals";
+import { describeConcernForAssessor, describePersona, RawConcernDiscovery, toConcernDiscovery } from "./employeePersona";
+import { summarizePacing } from "./conversationPacing";
+import { describeEfficiency, describeTimingForAssessor } from "./sessionTiming";
+import { getBranchHistory, getPlayedBranches, toBranchResult } from "./conversationTree";
+import { DEFAULT_RUBRIC, describeRubric, RawCriterionScore, RUBRIC_CRITERION_KEYS, toRubricBreakdown, weightedScore } from "./rubrics";
+import { describeSLIIModel, getTurnClassifications, RawTurnBehavior, scoreSessionByRules, SLII_BEHAVIORS, toTurnClassifications } from "./sliiScoring";
+import { generateDynamicFallbackScenarios, mockAnalyzeSession, mockEmployeeResponse, mockGenerateScenarios, mockTeamAnalysis } from "./mockService";
 
 // Retry wrapper for API calls to handle 503/429 errors
 const callWithRetry = async <T>(
@@ -38,19 +45,27 @@ const callWithRetry = async <T>(
 };
 
 // Helper to get SLII description text
-const getSLIIDefinitions = () => `
-Context: Ken Blanchard's Situational Leadership II (SLII).
-- D1 (Enthusiastic Beginner): Low Competence, High Commitment. Needs S1 (Directing).
-- D2 (Disillusioned Learner): Low/Some Competence, Low Commitment. Needs S2 (Coaching).
-- D3 (Capable but Cautious): Mod/High Competence, Variable Commitment. Needs S3 (Supporting).
-- D4 (Self-Reliant Achiever): High Competence, High Commitment. Needs S4 (Delegating).
-
-Styles:
-- S1 (Directing): High Directive, Low Supportive. Define roles, give specific instructions.
-- S2 (Coaching): High Directive, High Supportive. Explain decisions, solicit suggestions, support progress.
-- S3 (Supporting): Low Directive, High Supportive. Facilitate, listen, encourage, share responsibility for decision-making.
-- S4 (Delegating): Low Directive, Low Supportive. Turn over responsibility for decisions and implementation.
-`;
+const getSLIIDefinitions = () => describeSLIIModel();
+
+// User-facing reply shown in the chat when the employee response fails
+const toChatErrorMessage = (error: any): string => {
+  const msg = error.message || String(error);
+  if (msg.includes("429") || msg.includes("503") || msg.includes("quota")) {
+     return "시스템 오류: 사용량이 많아 잠시 지연되고 있습니다. 5초 뒤에 다시 시도해주세요.";
+  }
+  return "시스템 오류가 발생했습니다. 잠시 후 다시 시도해 주세요.";
+};
+
+// Dummy result returned when analysis fails, to prevent a crash
+const createFailedAnalysisResult = (): AnalysisResult => ({
+  leaderStyleIdentified: ["Unknown"],
+  styleScore: { S1: 25, S2: 25, S3: 25, S4: 25 },
+  isMatch: false,
+  score: 0,
+  summaryFeedback: "분석 중 시스템 오류가 발생했습니다. 다시 시도해 주세요.",
+  turnByTurnAnalysis: [],
+  actionPlan: []
+});
 
 // Helper to strip markdown code blocks if present
 const cleanJsonString = (text: string): string => {
@@ -59,72 +74,19 @@ const cleanJsonString = (text: string): string => {
   return clean.trim();
 };
 
-// Data pools for Dynamic Fallback Generation
-const FALLBACK_DATA = {
-  names: ["김지민", "이민수", "박현우", "최수진", "정다운", "강하늘", "송민호", "윤서연", "임재범", "한소희"],
-  roles: ["마케팅 인턴", "백엔드 개발자", "UI 디자이너", "영업 과장", "기획 팀장", "HR 매니저", "데이터 분석가", "품질 관리자", "고객 지원", "재무 담당"],
-  situations: [
-    "새로운 프로젝트를 시작하는 상황",
-    "업무 프로세스가 갑자기 변경된 상황",
-    "중요한 발표를 앞두고 있는 상황",
-    "반복적인 업무에 지쳐있는 상황",
-    "동료와의 갈등으로 스트레스를 받는 상황",
-    "승진 누락으로 의욕이 저하된 상황",
-    "새로운 툴 도입으로 혼란스러운 상황"
-  ]
-};
-
-const generateDynamicFallbackScenarios = (timestamp: number): Scenario[] => {
-  const getRandom = (arr: string[]) => arr[Math.floor(Math.random() * arr.length)];
-  
-  return [
-    {
-      id: `fallback-d1-${timestamp}`,
-      title: "열정적인 신입의 도전 (D1)",
-      description: `${getRandom(FALLBACK_DATA.situations)}. ${DevelopmentLevel.D1} 단계로, 의욕은 넘치지만 구체적인 방법은 모릅니다.`,
-      employeeName: getRandom(FALLBACK_DATA.names),
-      employeeRole: getRandom(FALLBACK_DATA.roles),
-      developmentLevel: DevelopmentLevel.D1,
-      initialMessage: "팀장님! 저 이번 일 정말 잘해보고 싶습니다! 아이디어는 많은데... 구체적으로 뭐부터 시작하면 좋을까요?"
-    },
-    {
-      id: `fallback-d2-${timestamp}`,
-      title: "혼란스러운 실무자 (D2)",
-      description: `${getRandom(FALLBACK_DATA.situations)}. ${DevelopmentLevel.D2} 단계로, 초기 기대와 달리 업무가 어려워 좌절감을 느끼고 있습니다.`,
-      employeeName: getRandom(FALLBACK_DATA.names),
-      employeeRole: getRandom(FALLBACK_DATA.roles),
-      developmentLevel: DevelopmentLevel.D2,
-      initialMessage: "팀장님, 열심히 하려고 했는데 자꾸 계획이 바뀌니까... 솔직히 어떻게 해야 할지 모르겠고 좀 지치네요."
-    },
-    {
-      id: `fallback-d3-${timestamp}`,
-      title: "신중한 전문가 (D3)",
-      description: `${getRandom(FALLBACK_DATA.situations)}. ${DevelopmentLevel.D3} 단계로, 역량은 충분하지만 자신감이 부족하거나 실수를 두려워합니다.`,
-      employeeName: getRandom(FALLBACK_DATA.names),
-      employeeRole: getRandom(FALLBACK_DATA.roles),
-      developmentLevel: DevelopmentLevel.D3,
-      initialMessage: "제가 이걸 맡아도 될까요? 지난번처럼 혹시라도 실수할까 봐... 좀 더 검토가 필요할 것 같습니다."
-    },
-    {
-      id: `fallback-d4-${timestamp}`,
-      title: "독립적인 에이스 (D4)",
-      description: `${getRandom(FALLBACK_DATA.situations)}. ${DevelopmentLevel.D4} 단계로, 해당 업무에 통달해 있으며 자율적인 권한을 원합니다.`,
-      employeeName: getRandom(FALLBACK_DATA.names),
-      employeeRole: getRandom(FALLBACK_DATA.roles),
-      developmentLevel: DevelopmentLevel.D4,
-      initialMessage: "팀장님, 이번 건은 제가 알아서 진행하겠습니다. 결과만 나중에 보고드릴 테니 믿고 맡겨주십시오."
+export const generateScenarios = async (industry?: string, role?: string): Promise<Scenario[]> => {
+  if (isMockMode('scenarios')) {
+    return mockGenerateScenarios(industry, role);
+  }
+  if (isProxyMode('scenarios')) {
+    try {
+      return await proxyGenerateScenarios(industry, role);
+    } catch (error) {
+      console.error("Error generating scenarios via proxy:", error);
+      return generateDynamicFallbackScenarios(Date.now());
     }
-  ];
-};
-
-const commonSafetySettings = [
-  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-];
+  }
 
-export const generateScenarios = async (industry?: string, role?: string): Promise<Scenario[]> => {
   const domains = ['IT Startup', 'Manufacturing', 'Hospital', 'Sales Team', 'Design Agency', 'Bank', 'Retail'];
   const targetIndustry = industry?.trim() ? industry : domains[Math.floor(Math.random() * domains.length)];
   const targetRoleInstruction = role?.trim() ? `Job Role focus: ${role}.` : 'Various job roles.';
@@ -136,6 +98,7 @@ export const generateScenarios = async (industry?: string, role?: string): Promi
     Each scenario must feature a subordinate at a different Development Level (D1, D2, D3, and D4).
     Industry Context: ${targetIndustry}.
     ${targetRoleInstruction}
+    Never name the development level (D1–D4 or its label) in the title or description; participants may have to diagnose it.
     The output must be in Korean.
   `;
 
@@ -150,32 +113,38 @@ export const generateScenarios = async (industry?: string, role?: string): Promi
         employeeName: { type: Type.STRING },
         employeeRole: { type: Type.STRING },
         developmentLevel: { type: Type.STRING, enum: ["D1", "D2", "D3", "D4"] },
-        initialMessage: { type: Type.STRING, description: "The first thing the employee says to the leader (a question, complaint, or status update)." }
+        initialMessage: { type: Type.STRING, description: "The first thing the employee says to the leader (a question, complaint, or status update)." },
+        persona: {
+          type: Type.OBJECT,
+          properties: {
+            traits: { type: Type.ARRAY, items: { type: Type.STRING }, description: "2-3 personality traits" },
+            communicationStyle: { type: Type.STRING },
+            tenure: { type: Type.STRING, description: "Time at the company and in the current role" },
+            hiddenConcern: { type: Type.STRING, description: "A motivation or worry the employee won't mention unless asked well" }
+          },
+          required: ["traits", "communicationStyle", "tenure", "hiddenConcern"]
+        }
       },
-      required: ["id", "title", "description", "employeeName", "employeeRole", "developmentLevel", "initialMessage"]
+      required: ["id", "title", "description", "employeeName", "employeeRole", "developmentLevel", "initialMessage", "persona"]
     }
   };
 
   try {
-    const ai = getAIClient();
+    const provider = getProvider('scenarios');
     const prompt = `Generate exactly 4 diverse leadership scenarios (D1, D2, D3, D4) in Korean. 
                     Industry: ${targetIndustry}. 
                     ${role ? `Role: ${role}` : ''}
                     Random seed: ${timestamp}`;
 
-    const response = await callWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-      model: modelFlash,
+    const responseText = await callWithRetry<string>(() => provider.generate({
+      systemInstruction,
       contents: prompt,
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        temperature: 0.9,
-      }
+      responseSchema: schema,
+      temperature: 0.9,
     }), 3, 2000);
 
-    const text = cleanJsonString(response.text || "");
-    if (!text) throw new Error("No response from Gemini");
+    const text = cleanJsonString(responseText);
+    if (!text) throw new Error(`No response from ${provider.id}`);
     
     let scenarios = JSON.parse(text) as Scenario[];
     
@@ -209,14 +178,39 @@ export const generateScenarios = async (industry?: string, role?: string): Promi
   }
 };
 
+// When onChunk is given the reply is streamed; onChunk receives the accumulated text so far
+// (and "" if a failed stream is being retried from the start).
 export const getEmployeeResponse = async (
   scenario: Scenario,
-  history: Message[]
+  history: Message[],
+  onChunk?: (partialText: string) => void
 ): Promise<string> => {
+  if (isProxyMode('roleplay')) {
+    try {
+      return await proxyEmployeeResponse(scenario, history, onChunk);
+    } catch (error: any) {
+      console.error("Error in chat loop via proxy:", error);
+      return toChatErrorMessage(error);
+    }
+  }
+
+  // Scenario transitions may have moved the follower away from the starting level
+  const followerState = simulateFollower(scenario, history).pop()!;
+  const level = followerState.level;
+  if (isMockMode('roleplay')) {
+    // In multi-goal scenarios the scripted reply follows the goal the manager just talked about
+    const lastManagerText = [...history].reverse().find(m => m.role === 'user')?.text || '';
+    const goal = scenario.goals?.length ? findGoalForText(lastManagerText, scenario.goals) : undefined;
+    return mockEmployeeResponse({ ...scenario, developmentLevel: goal?.developmentLevel || level }, history, onChunk);
+  }
+
   const systemInstruction = `
-    You are roleplaying as ${scenario.employeeName}, a ${scenario.employeeRole} at development level ${scenario.developmentLevel}.
+    You are roleplaying as ${scenario.employeeName}, a ${scenario.employeeRole} at development level ${level}.
     Context: ${scenario.description}
-    Your Traits based on ${scenario.developmentLevel}:
+    ${describeFollowerState(followerState)}
+    ${scenario.persona ? describePersona(scenario.persona, history) : ''}
+    ${scenario.goals?.length ? `Your development level differs by goal. Answer at the level of the goal being discussed:\n    ${describeGoalsForEmployee(scenario.goals)}` : ''}
+    Your Traits based on ${level}:
     - D1: Enthusiastic but inexperienced. Needs direction.
     - D2: Frustrated or overwhelmed. Needs coaching and encouragement.
     - D3: Capable but cautious/insecure. Needs support and listening.
@@ -232,60 +226,93 @@ export const getEmployeeResponse = async (
     !msg.text.includes('{"error"')
   );
 
-  let contents = validHistory.map(msg => ({
+  let contents: LLMMessage[] = validHistory.map(msg => ({
     role: msg.role === 'user' ? 'user' : 'model',
-    parts: [{ text: msg.text }]
+    text: msg.text
   }));
 
   if (contents.length === 0 || contents[0].role === 'model') {
     contents = [
-      { role: 'user', parts: [{ text: "상황극을 시작합니다. (Start Roleplay)" }] },
+      { role: 'user', text: "상황극을 시작합니다. (Start Roleplay)" },
       ...contents
     ];
   }
 
   try {
-    const ai = getAIClient();
-    const response = await callWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-      model: modelFlash,
-      contents: contents,
-      config: {
-        systemInstruction,
-        temperature: 0.7,
-        safetySettings: commonSafetySettings,
+    const provider = getProvider('roleplay');
+    const request = {
+      systemInstruction,
+      contents,
+      temperature: 0.7,
+      relaxedSafety: true,
+    };
+
+    if (!onChunk) {
+      const responseText = await callWithRetry<string>(() => provider.generate(request), 8, 3000);
+      return responseText || "...";
+    }
+
+    // A stream that breaks midway is restarted from scratch, so the partial reply is cleared first
+    const streamedText = await callWithRetry<string>(async () => {
+      let accumulated = "";
+      onChunk("");
+      for await (const delta of provider.generateStream(request)) {
+        accumulated += delta;
+        onChunk(accumulated);
       }
-    }), 8, 3000);
+      return accumulated;
+    }, 8, 3000);
 
-    return response.text || "...";
+    return streamedText || "...";
   } catch (error: any) {
     console.error("Error in chat loop:", error);
-    const msg = error.message || String(error);
-    if (msg.includes("429") || msg.includes("503") || msg.includes("quota")) {
-       return "시스템 오류: 사용량이 많아 잠시 지연되고 있습니다. 5초 뒤에 다시 시도해주세요.";
-    }
-    return "시스템 오류가 발생했습니다. 잠시 후 다시 시도해 주세요.";
+    return toChatErrorMessage(error);
   }
 };
 
-export const analyzeFullSession = async (
+// One LLM (or mock/proxy) assessment; throws on failure so analyzeFullSession can drop the run
+const runAssessor = async (
   scenario: Scenario,
-  history: Message[]
+  history: Message[],
+  rubric: Rubric,
+  diagnosis?: SessionDiagnosis,
+  timing?: SessionTiming
 ): Promise<AnalysisResult> => {
+  if (isMockMode('analysis')) {
+    return mockAnalyzeSession(scenario, history, rubric);
+  }
+  if (isProxyMode('analysis')) {
+    return proxyAnalyzeSession(scenario, history, rubric, diagnosis, timing);
+  }
+
+  const trajectory = scenario.transitions?.length ? describeTrajectory(simulateFollower(scenario, history)) : '';
+  const goals = scenario.goals || [];
+  const isSpoken = summarizePacing(history, 'voice') !== null;
+
   const systemInstruction = `
     You are an expert SLII Leadership Assessor. 
     Analyze the conversation between a Manager (User) and an Employee (AI).
     
     Employee Context:
     - Name: ${scenario.employeeName}
-    - Level: ${scenario.developmentLevel}
+    - Level: ${scenario.developmentLevel}${trajectory ? ` at the start; during the conversation: ${trajectory}` : ''}
     - Needs: ${getSLIIDefinitions()}
 
     Your Task:
     1. Identify the user's PRIMARY and SECONDARY leadership styles used (S1, S2, S3, S4).
     2. Estimate the percentage distribution of each style used (must sum to 100%).
     3. Determine if the style matched the employee's development level.
-    4. Provide a score (0-100).
+    4. Score each rubric criterion (0-100) using its level descriptors, with a one-sentence rationale:
+${describeRubric(rubric)}
     5. Give specific actionable feedback and an action plan.
+    6. For EVERY manager turn, rate directive and supportive behavior (0-10 each) and tag the SLII behaviors shown:
+${Object.entries(SLII_BEHAVIORS).map(([id, b]) => `       - ${id} (${b.kind})`).join('\n')}
+${diagnosis ? `\n    ${describeDiagnosis(diagnosis)}\n    Use it as evidence for the diagnosis criterion.` : ''}
+${goals.length ? `\n    7. The employee is at a different level on each goal. For each goal, list the manager turns about it,\n       the style used for it ("none" if it never came up), a 0-100 style-match score and one sentence of feedback:\n${describeGoalsForAssessor(goals)}` : ''}
+${scenario.persona?.hiddenConcern ? `\n    ${describeConcernForAssessor(scenario.persona)}\n    8. Judge whether the manager uncovered it (the employee actually shared it and the manager acknowledged it), citing the turn.` : ''}
+${timing ? `\n    ${describeTimingForAssessor(timing)}\n    9. In one sentence, judge the conversation's efficiency: did it reach a clear outcome in reasonable time without rushing the employee?` : ''}
+${isSpoken ? `\n    Some manager turns were spoken; their response time and interruptions are annotated in the transcript.\n    Consider them when judging listening and the partnering conversation.` : ''}
+${trajectory ? `\n    The employee's level changed during the conversation. Judge style match against the level at each turn,\n    and judge whether the manager adapted their style when the level changed (flexibility criterion).` : ''}
   `;
 
   const schema: Schema = {
@@ -307,19 +334,45 @@ export const analyzeFullSession = async (
         required: ["S1", "S2", "S3", "S4"]
       },
       isMatch: { type: Type.BOOLEAN },
-      score: { type: Type.NUMBER },
+      criterionScores: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            key: { type: Type.STRING, enum: RUBRIC_CRITERION_KEYS },
+            score: { type: Type.NUMBER },
+            rationale: { type: Type.STRING }
+          },
+          required: ["key", "score", "rationale"]
+        }
+      },
       summaryFeedback: { type: Type.STRING },
       turnByTurnAnalysis: {
         type: Type.ARRAY,
         items: {
           type: Type.OBJECT,
           properties: {
+            turnNumber: { type: Type.NUMBER, description: "The [Turn N] number of the manager message being critiqued" },
             userMessageSnippet: { type: Type.STRING },
             critique: { type: Type.STRING },
             betterAlternative: { type: Type.STRING }
           }
         }
       },
+      turnBehaviors: {
+        type: Type.ARRAY,
+        description: "One entry per manager turn, in order",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            turnNumber: { type: Type.NUMBER },
+            directiveScore: { type: Type.NUMBER },
+            supportiveScore: { type: Type.NUMBER },
+            behaviors: { type: Type.ARRAY, items: { type: Type.STRING, enum: Object.keys(SLII_BEHAVIORS) } }
+          },
+          required: ["turnNumber", "directiveScore", "supportiveScore", "behaviors"]
+        }
+      },
       actionPlan: {
         type: Type.ARRAY,
         items: {
@@ -330,49 +383,151 @@ export const analyzeFullSession = async (
             metric: { type: Type.STRING }
           }
         }
-      }
+      },
+      ...(timing ? { efficiencyFeedback: { type: Type.STRING } } : {}),
+      ...(scenario.persona?.hiddenConcern ? {
+        concernDiscovery: {
+          type: Type.OBJECT,
+          properties: {
+            uncovered: { type: Type.BOOLEAN },
+            evidence: { type: Type.STRING, description: "One sentence citing the [Turn N] where it surfaced, or why it didn't" }
+          },
+          required: ["uncovered", "evidence"]
+        }
+      } : {}),
+      ...(goals.length ? {
+        goalAssessments: {
+          type: Type.ARRAY,
+          description: "One entry per scenario goal",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              goalId: { type: Type.STRING, enum: goals.map(g => g.id) },
+              styleUsed: { type: Type.STRING, enum: ['S1', 'S2', 'S3', 'S4', 'none'] },
+              score: { type: Type.NUMBER },
+              feedback: { type: Type.STRING },
+              turnNumbers: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+            },
+            required: ["goalId", "styleUsed", "score", "feedback", "turnNumbers"]
+          }
+        }
+      } : {})
     },
-    required: ["leaderStyleIdentified", "styleScore", "isMatch", "score", "summaryFeedback", "turnByTurnAnalysis", "actionPlan"]
+    required: [
+      "leaderStyleIdentified", "styleScore", "isMatch", "criterionScores", "summaryFeedback", "turnByTurnAnalysis", "turnBehaviors", "actionPlan",
+      ...(goals.length ? ["goalAssessments"] : []),
+      ...(scenario.persona?.hiddenConcern ? ["concernDiscovery"] : []),
+      ...(timing ? ["efficiencyFeedback"] : [])
+    ]
   };
 
-  const conversationText = history
-    .map(m => `${m.role === 'user' ? 'Manager' : 'Employee'}: ${m.text}`)
-    .join("\n");
-
-  try {
-    const ai = getAIClient();
-    const response = await callWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-      model: modelFlash,
-      contents: `Analyze this roleplay session:\n${conversationText}`,
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        temperature: 0.1, // Low temp for consistent analysis
-      }
-    }), 5, 2000);
+  const conversationText = formatNumberedTranscript(history);
+
+  const provider = getProvider('analysis');
+  const responseText = await callWithRetry<string>(() => provider.generate({
+    systemInstruction,
+    contents: `Analyze this roleplay session:\n${conversationText}`,
+    responseSchema: schema,
+    temperature: 0.1, // Low temp for consistent analysis
+  }), 5, 2000);
+
+  const text = cleanJsonString(responseText);
+  const { turnBehaviors, criterionScores, goalAssessments, concernDiscovery, efficiencyFeedback, ...result } = JSON.parse(text) as Omit<AnalysisResult, 'concernDiscovery'> & {
+    turnBehaviors?: RawTurnBehavior[];
+    criterionScores?: RawCriterionScore[];
+    goalAssessments?: RawGoalAssessment[];
+    concernDiscovery?: RawConcernDiscovery;
+    efficiencyFeedback?: string;
+  };
+  // The total is defined by the rubric, not picked by the assessor
+  const rubricBreakdown = toRubricBreakdown(rubric, criterionScores || []);
+  return {
+    ...result,
+    score: weightedScore(rubricBreakdown.criteria),
+    rubricBreakdown,
+    turnByTurnAnalysis: linkTurnsToMessages(result.turnByTurnAnalysis || [], history),
+    turnBehaviors: toTurnClassifications(turnBehaviors || [], history),
+    goalResults: goals.length ? toGoalResults(goals, goalAssessments || [], history) : undefined,
+    concernDiscovery: scenario.persona?.hiddenConcern ? toConcernDiscovery(scenario.persona, history, concernDiscovery) : undefined,
+    efficiency: timing && efficiencyFeedback ? { timing, feedback: efficiencyFeedback } : undefined
+  };
+};
 
-    const text = cleanJsonString(response.text || "");
-    return JSON.parse(text) as AnalysisResult;
-  } catch (error) {
-    console.error("Analysis Error:", error);
-    // Return a dummy result to prevent crash
-    return {
-      leaderStyleIdentified: ["Unknown"],
-      styleScore: { S1: 25, S2: 25, S3: 25, S4: 25 },
-      isMatch: false,
-      score: 0,
-      summaryFeedback: "분석 중 시스템 오류가 발생했습니다. 다시 시도해 주세요.",
-      turnByTurnAnalysis: [],
-      actionPlan: []
-    };
+const analyzeConversation = async (
+  scenario: Scenario,
+  history: Message[],
+  rubric: Rubric,
+  diagnosis?: SessionDiagnosis,
+  timing?: SessionTiming
+): Promise<AnalysisResult> => {
+  // Through the proxy, the server samples with its own ANALYSIS_SAMPLES
+  const sampleCount = isProxyMode('analysis') ? 1 : getAnalysisSampleCount();
+  const runs = await Promise.allSettled(Array.from({ length: sampleCount }, () => runAssessor(scenario, history, rubric, diagnosis, timing)));
+
+  const samples: AnalysisResult[] = [];
+  runs.forEach(run => {
+    if (run.status === 'fulfilled') samples.push(run.value);
+    else console.error("Analysis Error:", run.reason);
+  });
+  if (samples.length === 0) {
+    return createFailedAnalysisResult();
   }
+
+  const result = samples.length === 1 ? samples[0] : combineAnalysisSamples(samples);
+  const ruleBasedScore = scoreSessionByRules(scenario.developmentLevel, history);
+  const turnClassifications = getTurnClassifications({ ...result, ruleBasedScore });
+  return {
+    ...result,
+    ruleBasedScore,
+    goalResults: scenario.goals?.length
+      ? result.goalResults || scoreGoalsByRules(scenario.goals, history, turnClassifications)
+      : undefined,
+    concernDiscovery: scenario.persona?.hiddenConcern
+      ? result.concernDiscovery || toConcernDiscovery(scenario.persona, history)
+      : undefined,
+    pacing: summarizePacing(history, 'voice') ?? undefined,
+    efficiency: timing ? result.efficiency || { timing, feedback: describeEfficiency(timing) } : undefined,
+    diagnosisAccuracy: diagnosis ? gradeDiagnosis(scenario.developmentLevel, diagnosis) : undefined,
+    adaptation: scenario.transitions?.length
+      ? assessAdaptation(simulateFollower(scenario, history), turnClassifications)
+      : undefined
+  };
+};
+
+// `tree` holds the branches of a rewound session; `history` is the branch it was finished on
+export const analyzeFullSession = async (
+  scenario: Scenario,
+  history: Message[],
+  rubric: Rubric = DEFAULT_RUBRIC,
+  diagnosis?: SessionDiagnosis, // Blind mode only
+  tree?: ConversationTree,
+  timing?: SessionTiming
+): Promise<AnalysisResult> => {
+  const alternatives = tree ? getPlayedBranches(tree).filter(b => b.id !== tree.activeBranchId) : [];
+  // The blind-mode diagnosis and the session time belong to the final branch, so only that one gets them
+  const [result, ...alternativeResults] = await Promise.all([
+    analyzeConversation(scenario, history, rubric, diagnosis, timing),
+    ...alternatives.map(branch => analyzeConversation(scenario, getBranchHistory(tree!, branch.id), rubric)),
+  ]);
+  if (!tree || alternatives.length === 0) return result;
+
+  const finalBranch = tree.branches.find(b => b.id === tree.activeBranchId)!;
+  return {
+    ...result,
+    branchComparison: [
+      toBranchResult(finalBranch, result, history, history, true),
+      ...alternatives.map((branch, idx) => toBranchResult(branch, alternativeResults[idx], getBranchHistory(tree, branch.id), history, false)),
+    ],
+  };
 };
 
 export const generateTeamAnalysis = async (records: SessionRecord[]): Promise<TeamAnalysisResult> => {
   if (records.length === 0) {
     throw new Error("No records to analyze");
   }
+  if (isProxyMode('teamAnalysis')) {
+    return proxyTeamAnalysis(records);
+  }
 
   // Pre-calculate stats to help the AI
   const totalScore = records.reduce((acc, r) => acc + r.score, 0);
@@ -412,6 +567,16 @@ export const generateTeamAnalysis = async (records: SessionRecord[]): Promise<Te
     S4: count ? Math.round(totalStyles.S4 / count) : 0
   };
 
+  if (isMockMode('teamAnalysis')) {
+    const mockResult = await mockTeamAnalysis(records, { avgScore, styleDistribution });
+    return {
+      ...mockResult,
+      overallScore: avgScore,
+      participantCount: records.length,
+      styleDistribution: styleDistribution
+    };
+  }
+
   const systemInstruction = `
     You are an HR Analytics Expert. Analyze the aggregate coaching data of a team.
     
@@ -452,19 +617,15 @@ export const generateTeamAnalysis = async (records: SessionRecord[]): Promise<Te
   };
 
   try {
-    const ai = getAIClient();
-    const response = await callWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-      model: modelFlash,
+    const provider = getProvider('teamAnalysis');
+    const responseText = await callWithRetry<string>(() => provider.generate({
+      systemInstruction,
       contents: "Generate Team Analysis Report based on the provided summary data.",
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        temperature: 0.2,
-      }
+      responseSchema: schema,
+      temperature: 0.2,
     }), 3, 3000);
 
-    const text = cleanJsonString(response.text || "");
+    const text = cleanJsonString(responseText);
     const aiResult = JSON.parse(text);
 
     // Merge AI insights with hard calculations
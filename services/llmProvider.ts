@@ -0,0 +1,133 @@
+import { Schema } from "@google/genai";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+
+// 'proxy' runs every operation on the API server (server/routes/coach.ts) so keys never reach the browser
+export type LLMProviderId = 'gemini' | 'openai' | 'local' | 'mock' | 'proxy';
+
+// Which coaching operation a request belongs to. Lets the assessor run on a different model than the roleplay.
+export type LLMTask = 'scenarios' | 'roleplay' | 'analysis' | 'teamAnalysis';
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LLMRequest {
+  systemInstruction: string;
+  contents: string | LLMMessage[];
+  temperature: number;
+  responseSchema?: Schema; // When set, the provider must return a JSON string matching this schema
+  relaxedSafety?: boolean; // Roleplay needs frustrated/emotional dialogue that default filters may block
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  model: string;
+  generate: (request: LLMRequest) => Promise<string>;
+  generateStream: (request: LLMRequest) => AsyncGenerator<string>; // Yields text deltas
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderId;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+const DEFAULT_MODELS: Record<LLMProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  local: 'llama3.1',
+  mock: 'mock',
+  proxy: 'proxy',
+};
+
+const DEFAULT_BASE_URLS: Record<LLMProviderId, string | undefined> = {
+  gemini: undefined,
+  openai: 'https://api.openai.com/v1',
+  local: 'http://localhost:11434/v1', // Ollama; llama.cpp server uses http://localhost:8080/v1
+  mock: undefined,
+  proxy: undefined,
+};
+
+const isProviderId = (value: string): value is LLMProviderId =>
+  value === 'gemini' || value === 'openai' || value === 'local' || value === 'mock' || value === 'proxy';
+
+const getApiKey = (provider: LLMProviderId): string | undefined => {
+  switch (provider) {
+    case 'gemini': return process.env.API_KEY || undefined;
+    case 'openai': return process.env.OPENAI_API_KEY || undefined;
+    case 'local': return process.env.LOCAL_LLM_API_KEY || undefined;
+    case 'mock':
+    case 'proxy':
+      return undefined;
+  }
+};
+
+let warnedMissingKey = false;
+
+// Resolve provider settings from env. Assessment tasks can be pointed at another provider/model via ASSESSOR_*.
+export const getLLMConfig = (task: LLMTask): LLMProviderConfig => {
+  const isAssessment = task === 'analysis' || task === 'teamAnalysis';
+
+  const defaultProvider = (process.env.LLM_PROVIDER || 'gemini').trim().toLowerCase();
+  const assessorProvider = (process.env.ASSESSOR_PROVIDER || '').trim().toLowerCase();
+  const requested = isAssessment && assessorProvider ? assessorProvider : defaultProvider;
+
+  let provider: LLMProviderId = 'gemini';
+  if (isProviderId(requested)) {
+    provider = requested;
+  } else {
+    console.warn(`Unknown LLM provider "${requested}". Falling back to gemini.`);
+  }
+
+  // Without a Gemini key every call would fail, so run the offline mock instead of half-working fallbacks
+  if (provider === 'gemini' && !getApiKey('gemini')) {
+    if (!warnedMissingKey) {
+      console.warn("API_KEY is not set. Using the offline mock provider.");
+      warnedMissingKey = true;
+    }
+    provider = 'mock';
+  }
+
+  const usesAssessorOverride = isAssessment && !!assessorProvider;
+  const model = (usesAssessorOverride ? process.env.ASSESSOR_MODEL : process.env.LLM_MODEL) || DEFAULT_MODELS[provider];
+  const baseUrl = (usesAssessorOverride ? process.env.ASSESSOR_BASE_URL : process.env.LLM_BASE_URL) || DEFAULT_BASE_URLS[provider];
+
+  return { provider, model, baseUrl, apiKey: getApiKey(provider) };
+};
+
+const providerCache = new Map<string, LLMProvider>();
+
+export const createProvider = (config: LLMProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'openai':
+    case 'local':
+      return createOpenAICompatibleProvider(config);
+    case 'mock':
+      throw new Error("Mock mode is served by mockService and has no LLM provider");
+    case 'proxy':
+      throw new Error("Proxy mode is served by proxyService and has no LLM provider");
+  }
+};
+
+// Mock mode bypasses the provider entirely (see services/mockService.ts)
+export const isMockMode = (task: LLMTask): boolean => getLLMConfig(task).provider === 'mock';
+
+// Proxy mode likewise hands the whole operation to the server (see services/proxyService.ts)
+export const isProxyMode = (task: LLMTask): boolean => getLLMConfig(task).provider === 'proxy';
+
+// Returns a cached provider instance for the given task
+export const getProvider = (task: LLMTask): LLMProvider => {
+  const config = getLLMConfig(task);
+  const cacheKey = `${config.provider}|${config.model}|${config.baseUrl || ''}`;
+  let provider = providerCache.get(cacheKey);
+  if (!provider) {
+    provider = createProvider(config);
+    providerCache.set(cacheKey, provider);
+  }
+  return provider;
+};
@@ -0,0 +1,308 @@
+import { AnalysisResult, DevelopmentLevel, Rubric, Scenario, Message, SessionRecord, TeamAnalysisResult, TurnFeedback, ActionItem, StyleKey, RubricCriterionKey } from "../types";
+import { classifyTurn, SLII_LEVELS, STYLE_KEYS, toStyleDistribution } from "./sliiScoring";
+import { toRubricBreakdown, weightedScore } from "./rubrics";
+import { scoreGoalsByRules } from "./scenarioGoals";
+import { findConcernEarnedTurn, toConcernDiscovery } from "./employeePersona";
+
+// Offline "mock" provider: deterministic scenarios, scripted employee replies and rule-based
+// analysis so the whole flow can be demoed and tested without network access.
+// Select with LLM_PROVIDER=mock; MOCK_SEED makes runs reproducible.
+
+const MOCK_LATENCY_MS = 400;
+
+const getMockSeed = (): number => {
+  const parsed = parseInt(process.env.MOCK_SEED || '', 10);
+  return Number.isNaN(parsed) ? 1 : parsed;
+};
+
+// Small seeded PRNG (mulberry32) so the same seed always yields the same script
+const createRandom = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const hashString = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (Math.imul(31, hash) + text.charCodeAt(i)) | 0;
+  }
+  return hash >>> 0;
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const simulateLatency = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+
+// Data pools for Dynamic Fallback Generation
+const FALLBACK_DATA = {
+  names: ["김지민", "이민수", "박현우", "최수진", "정다운", "강하늘", "송민호", "윤서연", "임재범", "한소희"],
+  roles: ["마케팅 인턴", "백엔드 개발자", "UI 디자이너", "영업 과장", "기획 팀장", "HR 매니저", "데이터 분석가", "품질 관리자", "고객 지원", "재무 담당"],
+  situations: [
+    "새로운 프로젝트를 시작하는 상황",
+    "업무 프로세스가 갑자기 변경된 상황",
+    "중요한 발표를 앞두고 있는 상황",
+    "반복적인 업무에 지쳐있는 상황",
+    "동료와의 갈등으로 스트레스를 받는 상황",
+    "승진 누락으로 의욕이 저하된 상황",
+    "새로운 툴 도입으로 혼란스러운 상황"
+  ]
+};
+
+export const generateDynamicFallbackScenarios = (timestamp: number, random: () => number = Math.random): Scenario[] => {
+  const getRandom = (arr: string[]) => arr[Math.floor(random() * arr.length)];
+  
+  return [
+    {
+      id: `fallback-d1-${timestamp}`,
+      title: "열정적인 신입의 도전",
+      description: `${getRandom(FALLBACK_DATA.situations)}. 의욕은 넘치지만 구체적인 방법은 모릅니다.`,
+      employeeName: getRandom(FALLBACK_DATA.names),
+      employeeRole: getRandom(FALLBACK_DATA.roles),
+      developmentLevel: DevelopmentLevel.D1,
+      initialMessage: "팀장님! 저 이번 일 정말 잘해보고 싶습니다! 아이디어는 많은데... 구체적으로 뭐부터 시작하면 좋을까요?",
+      persona: { traits: ["활발함", "성급함"], communicationStyle: "말이 빠르고 질문이 많음", tenure: "입사 3개월차", hiddenConcern: "동기들보다 뒤처질까 봐 모르는 걸 물어보기가 겁납니다." }
+    },
+    {
+      id: `fallback-d2-${timestamp}`,
+      title: "혼란스러운 실무자",
+      description: `${getRandom(FALLBACK_DATA.situations)}. 초기 기대와 달리 업무가 어려워 좌절감을 느끼고 있습니다.`,
+      employeeName: getRandom(FALLBACK_DATA.names),
+      employeeRole: getRandom(FALLBACK_DATA.roles),
+      developmentLevel: DevelopmentLevel.D2,
+      initialMessage: "팀장님, 열심히 하려고 했는데 자꾸 계획이 바뀌니까... 솔직히 어떻게 해야 할지 모르겠고 좀 지치네요.",
+      persona: { traits: ["성실함", "예민함"], communicationStyle: "돌려 말하다가 한숨을 섞음", tenure: "입사 1년차, 현 업무 4개월", hiddenConcern: "개인 사정으로 야근이 어려운데 팀에 말하지 못하고 있습니다." }
+    },
+    {
+      id: `fallback-d3-${timestamp}`,
+      title: "신중한 전문가",
+      description: `${getRandom(FALLBACK_DATA.situations)}. 역량은 충분하지만 자신감이 부족하거나 실수를 두려워합니다.`,
+      employeeName: getRandom(FALLBACK_DATA.names),
+      employeeRole: getRandom(FALLBACK_DATA.roles),
+      developmentLevel: DevelopmentLevel.D3,
+      initialMessage: "제가 이걸 맡아도 될까요? 지난번처럼 혹시라도 실수할까 봐... 좀 더 검토가 필요할 것 같습니다.",
+      persona: { traits: ["꼼꼼함", "내성적"], communicationStyle: "결론보다 걱정을 먼저 말함", tenure: "입사 4년차", hiddenConcern: "지난 분기 실수로 팀장님의 신뢰를 잃었다고 생각하고 있습니다." }
+    },
+    {
+      id: `fallback-d4-${timestamp}`,
+      title: "독립적인 에이스",
+      description: `${getRandom(FALLBACK_DATA.situations)}. 해당 업무에 통달해 있으며 자율적인 권한을 원합니다.`,
+      employeeName: getRandom(FALLBACK_DATA.names),
+      employeeRole: getRandom(FALLBACK_DATA.roles),
+      developmentLevel: DevelopmentLevel.D4,
+      initialMessage: "팀장님, 이번 건은 제가 알아서 진행하겠습니다. 결과만 나중에 보고드릴 테니 믿고 맡겨주십시오.",
+      persona: { traits: ["자신감", "직설적"], communicationStyle: "짧고 단호하게 결론부터 말함", tenure: "입사 7년차, 팀 내 최고참", hiddenConcern: "더 큰 역할을 맡지 못하면 이직을 고민하고 있습니다." }
+    }
+  ];
+};
+
+export const mockGenerateScenarios = async (industry?: string, role?: string): Promise<Scenario[]> => {
+  await simulateLatency();
+  const seed = getMockSeed();
+  const random = createRandom(seed ^ hashString(`${industry || ''}|${role || ''}`));
+  return generateDynamicFallbackScenarios(seed, random).map(scenario => ({
+    ...scenario,
+    id: scenario.id.replace('fallback', 'mock'),
+    employeeRole: role?.trim() ? role.trim() : scenario.employeeRole,
+  }));
+};
+
+// Scripted replies per development level. Questions from the manager get the "answer" pool.
+const EMPLOYEE_SCRIPTS: Record<DevelopmentLevel, { answer: string[]; reaction: string[] }> = {
+  [DevelopmentLevel.D1]: {
+    answer: [
+      "음... 사실 그 부분은 아직 잘 모르겠어요. 어떤 순서로 하면 될지 알려주시면 바로 해보겠습니다!",
+      "처음 해보는 거라 감이 잘 안 와요. 참고할 만한 예시가 있을까요?",
+      "제 생각엔 일단 부딪혀 보면 될 것 같은데, 혹시 놓치고 있는 게 있을까요?"
+    ],
+    reaction: [
+      "네, 알겠습니다! 말씀하신 대로 먼저 정리해서 내일까지 보여드릴게요.",
+      "좋습니다! 구체적으로 알려주시니까 훨씬 명확해졌어요.",
+      "열심히 해보겠습니다! 중간에 막히면 바로 여쭤봐도 될까요?"
+    ]
+  },
+  [DevelopmentLevel.D2]: {
+    answer: [
+      "솔직히 말씀드리면... 해도 해도 결과가 안 나오니까 자신이 없어요.",
+      "어디서부터 잘못됐는지 모르겠어요. 처음 계획대로 했는데도 계속 문제가 생기네요.",
+      "잘 모르겠어요. 제가 이 일에 맞는 사람인지도 요즘은 확신이 안 서요."
+    ],
+    reaction: [
+      "그렇게 말씀해 주시니 조금은 마음이 놓이네요. 그래도 막막한 건 여전해요.",
+      "네... 해보긴 할게요. 근데 또 틀리면 어떡하죠?",
+      "이유를 설명해 주시니까 이해가 되네요. 한 번만 더 같이 봐주실 수 있을까요?"
+    ]
+  },
+  [DevelopmentLevel.D3]: {
+    answer: [
+      "방법은 대충 알고 있는데, 제 판단이 맞는지 확신이 안 서서요.",
+      "사실 두 가지 안을 생각해 봤는데, 어느 쪽이 나을지 고민 중입니다.",
+      "지난번에 비슷한 건 잘 처리했었는데, 이번엔 규모가 커서 조금 부담돼요."
+    ],
+    reaction: [
+      "믿어주셔서 감사합니다. 제 방식대로 한번 진행해 보겠습니다.",
+      "네, 말씀 들으니 자신감이 좀 생기네요. 제가 정리한 안을 공유드릴게요.",
+      "알겠습니다... 그래도 중간에 한 번 의견 여쭤봐도 괜찮을까요?"
+    ]
+  },
+  [DevelopmentLevel.D4]: {
+    answer: [
+      "이미 일정과 리스크는 정리해 두었습니다. 필요하시면 요약본 드릴게요.",
+      "제가 보기엔 현재 방향이 가장 효율적입니다. 결과로 보여드리겠습니다.",
+      "그 부분은 팀원들과 이미 합의했습니다. 따로 신경 쓰지 않으셔도 됩니다."
+    ],
+    reaction: [
+      "네, 믿고 맡겨주셔서 감사합니다. 마무리되면 보고드리겠습니다.",
+      "세부 지시는 괜찮습니다. 제가 알아서 챙기겠습니다.",
+      "좋습니다. 필요한 게 생기면 그때 말씀드리겠습니다."
+    ]
+  }
+};
+
+// Emits the scripted reply a few characters at a time to mimic token streaming
+const streamText = async (text: string, onChunk: (partialText: string) => void) => {
+  onChunk("");
+  for (let i = 4; i < text.length + 4; i += 4) {
+    await new Promise(resolve => setTimeout(resolve, 40));
+    onChunk(text.slice(0, i));
+  }
+};
+
+export const mockEmployeeResponse = async (
+  scenario: Scenario,
+  history: Message[],
+  onChunk?: (partialText: string) => void
+): Promise<string> => {
+  await simulateLatency();
+  const managerTurns = history.filter(m => m.role === 'user');
+  const lastManagerText = managerTurns[managerTurns.length - 1]?.text || '';
+  const random = createRandom(getMockSeed() ^ hashString(scenario.id) ^ managerTurns.length);
+  const script = EMPLOYEE_SCRIPTS[scenario.developmentLevel] || EMPLOYEE_SCRIPTS[DevelopmentLevel.D1];
+  const pool = lastManagerText.includes('?') ? script.answer : script.reaction;
+  // The hidden concern comes out on the turn the leader earns it
+  const concern = scenario.persona?.hiddenConcern;
+  const reply = concern && findConcernEarnedTurn(history) === managerTurns.length
+    ? `사실은... 말씀드리기 조심스러웠는데, ${concern}`
+    : pick(pool, random);
+  if (onChunk) {
+    await streamText(reply, onChunk);
+  }
+  return reply;
+};
+
+const STYLE_LABELS: Record<StyleKey, string> = {
+  S1: '지시형(S1)',
+  S2: '코칭형(S2)',
+  S3: '지원형(S3)',
+  S4: '위임형(S4)',
+};
+
+const ACTION_PLANS: Record<StyleKey, ActionItem[]> = {
+  S1: [
+    { task: "업무 지시 시 목표·기한·완료 기준을 명확히 제시하기", deadline: "1주 이내", metric: "지시 후 재질문 횟수 감소" },
+    { task: "첫 과제에 대한 단계별 체크리스트 함께 만들기", deadline: "다음 1:1 미팅", metric: "체크리스트 완료율" }
+  ],
+  S2: [
+    { task: "결정 이유를 설명하고 팀원의 제안을 한 가지 이상 묻기", deadline: "2주 이내", metric: "팀원 제안 채택 건수" },
+    { task: "작은 진전에도 구체적으로 인정하는 피드백 주기", deadline: "매주", metric: "주간 칭찬 피드백 횟수" }
+  ],
+  S3: [
+    { task: "해결책을 먼저 말하지 않고 팀원의 안을 끝까지 경청하기", deadline: "다음 1:1 미팅", metric: "대화 중 질문 비율 50% 이상" },
+    { task: "의사결정에 팀원을 공동 책임자로 참여시키기", deadline: "2주 이내", metric: "팀원 주도 결정 건수" }
+  ],
+  S4: [
+    { task: "결과 기준만 합의하고 실행 방식은 위임하기", deadline: "1주 이내", metric: "중간 개입 횟수 감소" },
+    { task: "성과를 인정하고 더 큰 책임의 과제 부여하기", deadline: "이번 분기", metric: "위임 과제 수" }
+  ]
+};
+
+export const mockAnalyzeSession = async (scenario: Scenario, history: Message[], rubric: Rubric): Promise<AnalysisResult> => {
+  await simulateLatency();
+  const expected = SLII_LEVELS[scenario.developmentLevel]?.needs || 'S1';
+  const managerTurns = history.filter(m => m.role === 'user' && m.text.trim() !== '');
+
+  const turnBehaviors = managerTurns.map(classifyTurn);
+  const counts: Record<StyleKey, number> = { S1: 0, S2: 0, S3: 0, S4: 0 };
+  const turnByTurnAnalysis: TurnFeedback[] = managerTurns.map((msg, idx) => {
+    const style = turnBehaviors[idx].style;
+    counts[style]++;
+    const matched = style === expected;
+    return {
+      messageId: msg.id,
+      userMessageSnippet: msg.text.length > 80 ? `${msg.text.slice(0, 80)}...` : msg.text,
+      critique: matched
+        ? `${STYLE_LABELS[style]} 행동으로, ${scenario.developmentLevel} 팀원에게 적절한 접근입니다.`
+        : `${STYLE_LABELS[style]} 행동으로 보입니다. ${scenario.developmentLevel} 팀원에게는 ${STYLE_LABELS[expected]} 접근이 더 효과적입니다.`,
+      betterAlternative: matched ? "" : ACTION_PLANS[expected][0].task
+    };
+  });
+
+  const styleScore = toStyleDistribution(counts, managerTurns.length);
+  const ranked = [...STYLE_KEYS].sort((a, b) => styleScore[b] - styleScore[a]);
+  const leaderStyleIdentified = managerTurns.length === 0 ? ["Unknown"] : ranked.slice(0, 2);
+  const isMatch = managerTurns.length > 0 && ranked[0] === expected;
+
+  // Rule-of-thumb criterion scores; the total is their rubric-weighted average
+  const share = (count: number) => managerTurns.length === 0 ? 0 : Math.round((count / managerTurns.length) * 100);
+  const expectedIdx = STYLE_KEYS.indexOf(expected);
+  const criterionScores: Record<RubricCriterionKey, number> = {
+    diagnosis: managerTurns.length === 0 ? 0 : isMatch ? 85 : ranked.slice(0, 2).includes(expected) ? 60 : 35,
+    style_match: styleScore[expected],
+    flexibility: share(turnBehaviors.filter(t => Math.abs(STYLE_KEYS.indexOf(t.style) - expectedIdx) <= 1).length),
+    partnering: share(turnBehaviors.filter(t => t.behaviors?.some(b => b === 'asking_input' || b === 'problem_solving')).length),
+  };
+  const rubricBreakdown = toRubricBreakdown(rubric, Object.entries(criterionScores).map(([key, score]) => ({ key, score })));
+  const score = weightedScore(rubricBreakdown.criteria);
+
+  return {
+    leaderStyleIdentified,
+    styleScore,
+    isMatch,
+    score,
+    summaryFeedback: `[Mock 분석] 총 ${managerTurns.length}회의 발화 중 ${STYLE_LABELS[expected]} 행동 비율은 ${styleScore[expected]}%입니다. ` +
+      (isMatch
+        ? `${scenario.employeeName}님의 발달 단계(${scenario.developmentLevel})에 맞는 리더십 스타일을 주로 사용했습니다.`
+        : `주로 사용한 스타일은 ${STYLE_LABELS[ranked[0]]}로, ${scenario.developmentLevel} 단계에 필요한 ${STYLE_LABELS[expected]}와 차이가 있습니다.`),
+    turnByTurnAnalysis,
+    turnBehaviors,
+    rubricBreakdown,
+    goalResults: scenario.goals?.length ? scoreGoalsByRules(scenario.goals, history, turnBehaviors) : undefined,
+    concernDiscovery: scenario.persona?.hiddenConcern ? toConcernDiscovery(scenario.persona, history) : undefined,
+    actionPlan: ACTION_PLANS[expected]
+  };
+};
+
+export const mockTeamAnalysis = async (
+  records: SessionRecord[],
+  stats: { avgScore: number; styleDistribution: Record<StyleKey, number> }
+): Promise<Omit<TeamAnalysisResult, 'overallScore' | 'participantCount' | 'styleDistribution'>> => {
+  await simulateLatency();
+  const ranked = [...STYLE_KEYS].sort((a, b) => stats.styleDistribution[b] - stats.styleDistribution[a]);
+  const matchRate = Math.round((records.filter(r => r.result.isMatch).length / records.length) * 100);
+  const leastUsed = ranked[ranked.length - 1];
+
+  return {
+    executiveSummary: `[Mock 분석] ${records.length}건의 세션 평균 점수는 ${stats.avgScore}점이며, 스타일 적합률은 ${matchRate}%입니다. ` +
+      `팀은 ${STYLE_LABELS[ranked[0]]} 스타일을 가장 많이 사용하고 ${STYLE_LABELS[leastUsed]} 스타일은 가장 적게 사용합니다.`,
+    keyStrengths: [
+      `${STYLE_LABELS[ranked[0]]} 행동을 일관되게 활용합니다.`,
+      `${STYLE_LABELS[ranked[1]]}을(를) 보조 스타일로 활용할 수 있습니다.`,
+      `세션 평균 점수 ${stats.avgScore}점으로 기본적인 코칭 대화가 가능합니다.`
+    ],
+    commonWeaknesses: [
+      `${STYLE_LABELS[leastUsed]} 스타일 활용이 부족합니다.`,
+      `스타일 부적합 세션이 ${100 - matchRate}%입니다.`,
+      "팀원의 발달 단계를 진단하는 질문이 충분하지 않습니다."
+    ],
+    trainingRecommendations: [
+      `${STYLE_LABELS[leastUsed]} 중심의 롤플레이 연습`,
+      "발달 단계 진단 워크숍",
+      "세션 후 실천 과제 점검 1:1 미팅"
+    ]
+  };
+};
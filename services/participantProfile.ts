@@ -0,0 +1,93 @@
+import { DevelopmentLevel, SessionRecord, TrackedActionItem } from "../types";
+import { getTrackedActionItems } from "./actionItems";
+import { isHintedSession } from "./coachingHints";
+
+// Longitudinal view of one participant's sessions. Participants have no account, so a person is identified by
+// userName + companyName as typed on the INTRO screen (case-insensitive).
+
+export interface ParticipantRef {
+  userName: string;
+  companyName?: string;
+}
+
+export interface LevelTrendPoint {
+  recordId: string;
+  date: string;
+  score: number;
+  styleScore?: { S1: number; S2: number; S3: number; S4: number };
+  isMatch: boolean;
+}
+
+export interface LevelSummary {
+  level: DevelopmentLevel;
+  points: LevelTrendPoint[]; // Oldest first
+  averageScore: number;
+  matchRate: number; // 0-100, share of sessions where the style matched the level
+  scoreChange: number | null; // Latest minus first session; null with fewer than two sessions
+}
+
+export interface OpenActionItem {
+  recordId: string;
+  date: string;
+  scenarioTitle: string;
+  item: TrackedActionItem;
+}
+
+export interface ParticipantProfile {
+  participant: ParticipantRef;
+  records: SessionRecord[]; // Oldest first
+  scoredRecords: SessionRecord[]; // `records` without practice-mode sessions that showed hints
+  hintedRecords: SessionRecord[]; // Kept out of the trends, averages and match rates
+  levels: LevelSummary[]; // Only levels the participant has practised without hints
+  openActionItems: OpenActionItem[]; // Not yet done, newest session first
+}
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+export const isSameParticipant = (record: SessionRecord, participant: ParticipantRef): boolean =>
+  normalize(record.userName) === normalize(participant.userName) &&
+  normalize(record.companyName) === normalize(participant.companyName);
+
+export const getRecordLevel = (record: SessionRecord): DevelopmentLevel | undefined =>
+  record.developmentLevel || record.scenario?.developmentLevel;
+
+export const buildParticipantProfile = (records: SessionRecord[], participant: ParticipantRef): ParticipantProfile => {
+  const own = records
+    .filter(r => !r.isDeleted && isSameParticipant(r, participant))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const scoredRecords = own.filter(r => !isHintedSession(r));
+  const hintedRecords = own.filter(isHintedSession);
+
+  const levels: LevelSummary[] = [];
+  Object.values(DevelopmentLevel).forEach(level => {
+    const points: LevelTrendPoint[] = scoredRecords
+      .filter(r => getRecordLevel(r) === level)
+      .map(r => ({
+        recordId: r.id,
+        date: r.date,
+        score: r.score,
+        styleScore: r.result.styleScore,
+        isMatch: r.result.isMatch,
+      }));
+    if (points.length === 0) return;
+
+    levels.push({
+      level,
+      points,
+      averageScore: Math.round(points.reduce((acc, p) => acc + p.score, 0) / points.length),
+      matchRate: Math.round((points.filter(p => p.isMatch).length / points.length) * 100),
+      scoreChange: points.length > 1 ? points[points.length - 1].score - points[0].score : null,
+    });
+  });
+
+  const openActionItems: OpenActionItem[] = [...own].reverse().flatMap(r =>
+    getTrackedActionItems(r).filter(item => item.status !== 'done').map(item => ({
+      recordId: r.id,
+      date: r.date,
+      scenarioTitle: r.scenarioTitle,
+      item,
+    }))
+  );
+
+  return { participant, records: own, scoredRecords, hintedRecords, levels, openActionItems };
+};
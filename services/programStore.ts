@@ -0,0 +1,136 @@
+import { DevelopmentLevel, LibraryScenario, ProgramStep, SessionRecord, TrainingProgram } from "../types";
+import { isApiStorageEnabled, fetchPrograms, saveProgramToServer } from "./apiClient";
+import { isHintedSession } from "./coachingHints";
+
+// Training programs (ordered library scenarios assigned to a cohort). Stored like the scenario library:
+// localStorage by default, the team server when SESSION_STORE=api.
+// Completion is not stored on the program; it is derived from SessionRecords carrying an `assignment`
+// (sessions that showed practice-mode hints don't count).
+
+const PROGRAMS_KEY = 'slii_programs';
+
+export type ProgramDraft = Pick<TrainingProgram, 'name' | 'companyName' | 'steps' | 'participants' | 'blindMode' | 'timer'> & {
+  id?: string; // Set when editing an existing program
+};
+
+export type AssignmentStatus = 'done' | 'todo' | 'overdue';
+
+export interface StepProgress {
+  step: ProgramStep;
+  scenario?: LibraryScenario; // Missing if the library entry was removed
+  status: AssignmentStatus;
+  record?: SessionRecord; // Latest session completing this step
+}
+
+export interface ProgramProgress {
+  program: TrainingProgram;
+  steps: StepProgress[];
+}
+
+const loadLocal = (): TrainingProgram[] => {
+  try {
+    const saved = localStorage.getItem(PROGRAMS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load programs", e);
+    return [];
+  }
+};
+
+const saveLocal = (programs: TrainingProgram[]) => {
+  localStorage.setItem(PROGRAMS_KEY, JSON.stringify(programs));
+};
+
+const putProgram = async (program: TrainingProgram): Promise<void> => {
+  if (isApiStorageEnabled()) {
+    await saveProgramToServer(program);
+    return;
+  }
+  const others = loadLocal().filter(p => p.id !== program.id);
+  saveLocal([...others, program]);
+};
+
+// Newest first, archived included
+export const listPrograms = async (): Promise<TrainingProgram[]> => {
+  const programs = isApiStorageEnabled() ? await fetchPrograms() : loadLocal();
+  return [...programs].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const saveProgram = async (draft: ProgramDraft, editorName: string): Promise<TrainingProgram> => {
+  if (!draft.name.trim() || !draft.companyName.trim()) {
+    throw new Error("프로그램 이름과 회사명을 입력해주세요.");
+  }
+  if (draft.steps.length === 0) {
+    throw new Error("시나리오를 한 개 이상 추가해주세요.");
+  }
+
+  const now = new Date().toISOString();
+  const existing = draft.id ? (await listPrograms()).find(p => p.id === draft.id) : undefined;
+  const program: TrainingProgram = {
+    name: draft.name.trim(),
+    companyName: draft.companyName.trim(),
+    steps: draft.steps,
+    participants: Array.from(new Set(draft.participants.map(p => p.trim()).filter(Boolean))),
+    blindMode: draft.blindMode,
+    timer: draft.timer,
+    id: existing?.id || `program-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    isArchived: existing?.isArchived ?? false,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    createdBy: existing?.createdBy || editorName,
+  };
+  await putProgram(program);
+  return program;
+};
+
+export const setProgramArchived = async (program: TrainingProgram, isArchived: boolean): Promise<TrainingProgram> => {
+  const updated: TrainingProgram = { ...program, isArchived, updatedAt: new Date().toISOString() };
+  await putProgram(updated);
+  return updated;
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const isProgramParticipant = (program: TrainingProgram, userName: string, companyName: string): boolean =>
+  normalizeName(program.companyName) === normalizeName(companyName) &&
+  program.participants.some(p => normalizeName(p) === normalizeName(userName));
+
+// Active programs the participant was invited to
+export const getParticipantPrograms = (programs: TrainingProgram[], userName: string, companyName: string): TrainingProgram[] =>
+  programs.filter(p => !p.isArchived && isProgramParticipant(p, userName, companyName));
+
+// Levels the program's scenarios cover, to warn facilitators about gaps in D1–D4
+export const getCoveredLevels = (steps: ProgramStep[], library: LibraryScenario[]): Set<DevelopmentLevel> =>
+  new Set(steps
+    .map(step => library.find(s => s.id === step.scenarioId)?.developmentLevel)
+    .filter((level): level is DevelopmentLevel => !!level));
+
+const todayString = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+export const getStepProgress = (
+  program: TrainingProgram,
+  userName: string,
+  library: LibraryScenario[],
+  records: SessionRecord[]
+): StepProgress[] => {
+  const today = todayString();
+  const participantRecords = records.filter(r =>
+    !r.isDeleted &&
+    !isHintedSession(r) &&
+    r.assignment?.programId === program.id &&
+    normalizeName(r.userName) === normalizeName(userName)
+  );
+
+  return program.steps.map(step => {
+    const record = participantRecords
+      .filter(r => r.assignment?.scenarioId === step.scenarioId)
+      .sort((a, b) => b.date.localeCompare(a.date))[0];
+    const status: AssignmentStatus = record
+      ? 'done'
+      : (step.dueDate && step.dueDate < today ? 'overdue' : 'todo');
+    return { step, scenario: library.find(s => s.id === step.scenarioId), status, record };
+  });
+};
@@ -0,0 +1,49 @@
+import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
+import { LLMMessage, LLMProvider, LLMProviderConfig, LLMRequest } from "../llmProvider";
+
+const relaxedSafetySettings = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+];
+
+const toGeminiContents = (contents: string | LLMMessage[]) => {
+  if (typeof contents === 'string') return contents;
+  return contents.map(msg => ({
+    role: msg.role,
+    parts: [{ text: msg.text }]
+  }));
+};
+
+export const createGeminiProvider = (config: LLMProviderConfig): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+  const toParams = (request: LLMRequest) => ({
+    model: config.model,
+    contents: toGeminiContents(request.contents),
+    config: {
+      systemInstruction: request.systemInstruction,
+      temperature: request.temperature,
+      ...(request.responseSchema && {
+        responseMimeType: "application/json",
+        responseSchema: request.responseSchema,
+      }),
+      ...(request.relaxedSafety && { safetySettings: relaxedSafetySettings }),
+    }
+  });
+
+  const generate = async (request: LLMRequest): Promise<string> => {
+    const response = await ai.models.generateContent(toParams(request));
+    return response.text || "";
+  };
+
+  const generateStream = async function* (request: LLMRequest): AsyncGenerator<string> {
+    const stream = await ai.models.generateContentStream(toParams(request));
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  };
+
+  return { id: 'gemini', model: config.model, generate, generateStream };
+};
@@ -0,0 +1,103 @@
+import { Schema } from "@google/genai";
+import { LLMMessage, LLMProvider, LLMProviderConfig, LLMRequest } from "../llmProvider";
+
+// Works with OpenAI and any server exposing the same /chat/completions API (Ollama, llama.cpp, vLLM, LM Studio)
+
+// Convert the Gemini-style schema (Type.STRING, Type.OBJECT...) used by geminiService into plain JSON Schema
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = String(schema.type).toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) json.required = schema.required;
+  return json;
+};
+
+const toChatMessages = (systemInstruction: string, contents: string | LLMMessage[]) => {
+  const turns = typeof contents === 'string'
+    ? [{ role: 'user', content: contents }]
+    : contents.map(msg => ({
+        role: msg.role === 'model' ? 'assistant' : 'user',
+        content: msg.text
+      }));
+  return [{ role: 'system', content: systemInstruction.trim() }, ...turns];
+};
+
+export const createOpenAICompatibleProvider = (config: LLMProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+
+  const post = async (body: Record<string, unknown>): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: config.model, ...body }),
+    });
+
+    if (!res.ok) {
+      // Keep the status code in the message so callWithRetry can detect 429/503
+      const detail = await res.text().catch(() => '');
+      throw new Error(`${res.status} ${res.statusText} from ${config.provider} provider: ${detail}`);
+    }
+    return res;
+  };
+
+  const generate = async (request: LLMRequest): Promise<string> => {
+    const res = await post({
+      messages: toChatMessages(request.systemInstruction, request.contents),
+      temperature: request.temperature,
+      ...(request.responseSchema && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) }
+        }
+      }),
+    });
+
+    const data = await res.json();
+    return data?.choices?.[0]?.message?.content || "";
+  };
+
+  // Parses the server-sent events stream ("data: {...}" lines terminated by "data: [DONE]")
+  const generateStream = async function* (request: LLMRequest): AsyncGenerator<string> {
+    const res = await post({
+      messages: toChatMessages(request.systemInstruction, request.contents),
+      temperature: request.temperature,
+      stream: true,
+    });
+    if (!res.body) throw new Error(`Empty stream from ${config.provider} provider`);
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+        const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  };
+
+  return { id: config.provider, model: config.model, generate, generateStream };
+};
@@ -0,0 +1,93 @@
+import { AnalysisResult, Message, Rubric, Scenario, SessionDiagnosis, SessionRecord, SessionTiming, TeamAnalysisResult } from "../types";
+
+// Browser side of the LLM proxy (server/routes/coach.ts). With LLM_PROVIDER=proxy the prompts and API keys
+// stay on the server; the browser only receives the final scenarios, reply text and analysis payloads.
+
+let proxyUser = '';
+
+// Identifies the participant to the proxy for per-user rate limiting
+export const setProxyUser = (userName: string) => {
+  proxyUser = userName.trim();
+};
+
+const getProxyBaseUrl = () => (process.env.LLM_PROXY_URL || '').replace(/\/+$/, '');
+
+const postToProxy = async (path: string, body: unknown): Promise<Response> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (proxyUser) {
+    headers['X-SLII-User'] = encodeURIComponent(proxyUser);
+  }
+  const res = await fetch(`${getProxyBaseUrl()}${path}`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    // Keep the status code in the message so callers can detect 429 (rate limited)
+    const detail = await res.json().catch(() => null);
+    throw new Error(`${res.status} ${detail?.error || res.statusText}`);
+  }
+  return res;
+};
+
+export const proxyGenerateScenarios = async (industry?: string, role?: string): Promise<Scenario[]> => {
+  const res = await postToProxy('/api/coach/scenarios', { industry, role });
+  return res.json();
+};
+
+// The streaming endpoint sends NDJSON lines: {"partial": "..."} while generating, then {"final": "..."}
+export const proxyEmployeeResponse = async (
+  scenario: Scenario,
+  history: Message[],
+  onChunk?: (partialText: string) => void
+): Promise<string> => {
+  if (!onChunk) {
+    const res = await postToProxy('/api/coach/reply', { scenario, history });
+    const data = await res.json();
+    return data.text;
+  }
+
+  const res = await postToProxy('/api/coach/reply?stream=true', { scenario, history });
+  if (!res.body) throw new Error("Empty stream from proxy");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finalText: string | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line);
+      if (typeof event.partial === 'string') onChunk(event.partial);
+      if (typeof event.final === 'string') finalText = event.final;
+    }
+  }
+
+  if (finalText === null) {
+    throw new Error("Proxy stream ended before the reply was complete");
+  }
+  return finalText;
+};
+
+export const proxyAnalyzeSession = async (
+  scenario: Scenario,
+  history: Message[],
+  rubric: Rubric,
+  diagnosis?: SessionDiagnosis,
+  timing?: SessionTiming
+): Promise<AnalysisResult> => {
+  const res = await postToProxy('/api/coach/analysis', { scenario, history, rubric, diagnosis, timing });
+  return res.json();
+};
+
+export const proxyTeamAnalysis = async (records: SessionRecord[]): Promise<TeamAnalysisResult> => {
+  const res = await postToProxy('/api/coach/team-analysis', { records });
+  return res.json();
+};
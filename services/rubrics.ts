@@ -0,0 +1,197 @@
+import { CriterionScore, Rubric, RubricBreakdown, RubricCriterion, RubricCriterionKey, RubricLevel } from "../types";
+import { isApiStorageEnabled, fetchRubrics, saveRubricToServer } from "./apiClient";
+
+// Assessment rubrics: weighted criteria with per-level descriptors. The assessor scores each criterion and the
+// total is their weighted average. Stored like programs: localStorage by default, the team server when SESSION_STORE=api.
+
+const RUBRICS_KEY = 'slii_rubrics';
+
+export const RUBRIC_CRITERIA: Record<RubricCriterionKey, { label: string; description: string }> = {
+  diagnosis: { label: '발달 단계 진단', description: "Diagnosis accuracy: did the manager correctly read the employee's competence and commitment on this goal?" },
+  style_match: { label: '스타일 매칭', description: 'Style match: how much of the conversation used the leadership style the development level needs?' },
+  flexibility: { label: '유연성', description: 'Flexibility: did the manager adjust directive/supportive behavior as the employee responded?' },
+  partnering: { label: '파트너링 대화', description: 'Partnering for performance: did they agree on goals, the diagnosis and the style together with the employee?' },
+};
+
+export const RUBRIC_CRITERION_KEYS = Object.keys(RUBRIC_CRITERIA) as RubricCriterionKey[];
+
+// Ordered high to low; `min` is the lowest 0–100 score at that level
+export const RUBRIC_LEVELS: Record<RubricLevel, { label: string; min: number }> = {
+  exemplary: { label: '탁월', min: 85 },
+  proficient: { label: '능숙', min: 70 },
+  developing: { label: '발전 중', min: 50 },
+  beginning: { label: '초기', min: 0 },
+};
+
+export const RUBRIC_LEVEL_KEYS = Object.keys(RUBRIC_LEVELS) as RubricLevel[];
+
+export const levelForScore = (score: number): RubricLevel =>
+  RUBRIC_LEVEL_KEYS.find(level => score >= RUBRIC_LEVELS[level].min) || 'beginning';
+
+export const DEFAULT_RUBRIC: Rubric = {
+  id: 'default',
+  name: '기본 루브릭',
+  companyName: '',
+  criteria: [
+    {
+      key: 'diagnosis',
+      weight: 25,
+      descriptors: {
+        exemplary: '질문으로 역량과 의지를 모두 확인하고 정확한 발달 단계를 진단함',
+        proficient: '발달 단계를 대체로 맞게 판단했으나 확인 질문이 부족함',
+        developing: '역량 또는 의지 중 한쪽만 보고 판단함',
+        beginning: '진단 없이 자신의 방식대로 대화를 진행함',
+      },
+    },
+    {
+      key: 'style_match',
+      weight: 35,
+      descriptors: {
+        exemplary: '대화 대부분에서 필요한 스타일을 일관되게 사용함',
+        proficient: '필요한 스타일이 주를 이루나 다른 스타일이 섞임',
+        developing: '인접한 스타일을 주로 사용함',
+        beginning: '필요한 스타일과 반대되는 스타일을 주로 사용함',
+      },
+    },
+    {
+      key: 'flexibility',
+      weight: 20,
+      descriptors: {
+        exemplary: '팀원의 반응에 따라 지시/지원 행동을 적절히 조절함',
+        proficient: '필요한 순간에 대체로 행동을 조절함',
+        developing: '조절을 시도했으나 늦거나 방향이 어긋남',
+        beginning: '반응과 관계없이 같은 행동을 반복함',
+      },
+    },
+    {
+      key: 'partnering',
+      weight: 20,
+      descriptors: {
+        exemplary: '목표, 진단, 리더십 스타일을 팀원과 함께 합의함',
+        proficient: '목표는 합의했으나 진단이나 스타일 합의는 부족함',
+        developing: '리더가 일방적으로 정하고 동의만 구함',
+        beginning: '합의 과정 없이 일방적으로 통보함',
+      },
+    },
+  ],
+  isArchived: false,
+  createdAt: '1970-01-01T00:00:00.000Z',
+  updatedAt: '1970-01-01T00:00:00.000Z',
+};
+
+export type RubricDraft = Pick<Rubric, 'name' | 'companyName' | 'criteria'> & {
+  id?: string; // Set when editing an existing rubric
+};
+
+const loadLocal = (): Rubric[] => {
+  try {
+    const saved = localStorage.getItem(RUBRICS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load rubrics", e);
+    return [];
+  }
+};
+
+const saveLocal = (rubrics: Rubric[]) => {
+  localStorage.setItem(RUBRICS_KEY, JSON.stringify(rubrics));
+};
+
+const putRubric = async (rubric: Rubric): Promise<void> => {
+  if (isApiStorageEnabled()) {
+    await saveRubricToServer(rubric);
+    return;
+  }
+  const others = loadLocal().filter(r => r.id !== rubric.id);
+  saveLocal([...others, rubric]);
+};
+
+// Newest first, archived included. DEFAULT_RUBRIC is not stored and not listed.
+export const listRubrics = async (): Promise<Rubric[]> => {
+  const rubrics = isApiStorageEnabled() ? await fetchRubrics() : loadLocal();
+  return [...rubrics].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getWeightTotal = (criteria: RubricCriterion[]) => criteria.reduce((acc, c) => acc + c.weight, 0);
+
+export const saveRubric = async (draft: RubricDraft, editorName: string): Promise<Rubric> => {
+  if (!draft.name.trim()) {
+    throw new Error("루브릭 이름을 입력해주세요.");
+  }
+  if (draft.criteria.some(c => c.weight < 0) || getWeightTotal(draft.criteria) !== 100) {
+    throw new Error("가중치의 합은 100이어야 합니다.");
+  }
+
+  const now = new Date().toISOString();
+  const existing = draft.id ? (await listRubrics()).find(r => r.id === draft.id) : undefined;
+  const rubric: Rubric = {
+    name: draft.name.trim(),
+    companyName: draft.companyName.trim(),
+    criteria: draft.criteria,
+    id: existing?.id || `rubric-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    isArchived: existing?.isArchived ?? false,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    updatedBy: editorName,
+  };
+  await putRubric(rubric);
+  return rubric;
+};
+
+export const setRubricArchived = async (rubric: Rubric, isArchived: boolean, editorName: string): Promise<Rubric> => {
+  const updated: Rubric = { ...rubric, isArchived, updatedAt: new Date().toISOString(), updatedBy: editorName };
+  await putRubric(updated);
+  return updated;
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// The company's own active rubric, then the active company-wide default, then DEFAULT_RUBRIC
+export const getRubricForCompany = (rubrics: Rubric[], companyName: string): Rubric => {
+  const active = rubrics.filter(r => !r.isArchived);
+  return active.find(r => r.companyName && normalizeName(r.companyName) === normalizeName(companyName))
+    || active.find(r => !r.companyName)
+    || DEFAULT_RUBRIC;
+};
+
+// Loading failures fall back to DEFAULT_RUBRIC so they never block an analysis
+export const loadRubricForCompany = async (companyName: string): Promise<Rubric> => {
+  try {
+    return getRubricForCompany(await listRubrics(), companyName);
+  } catch (error) {
+    console.error("Failed to load rubrics", error);
+    return DEFAULT_RUBRIC;
+  }
+};
+
+// Rubric section of the assessor prompt
+export const describeRubric = (rubric: Rubric): string => rubric.criteria
+  .filter(c => c.weight > 0)
+  .map(c => [
+    `- ${c.key} (weight ${c.weight}%): ${RUBRIC_CRITERIA[c.key].description}`,
+    ...RUBRIC_LEVEL_KEYS.map(level => `    ${level} (${RUBRIC_LEVELS[level].min}+): ${c.descriptors[level]}`),
+  ].join('\n'))
+  .join('\n');
+
+export const weightedScore = (criteria: CriterionScore[]): number => {
+  const totalWeight = criteria.reduce((acc, c) => acc + c.weight, 0);
+  if (totalWeight === 0) return 0;
+  return Math.round(criteria.reduce((acc, c) => acc + c.score * c.weight, 0) / totalWeight);
+};
+
+export interface RawCriterionScore {
+  key: string;
+  score: number;
+  rationale?: string;
+}
+
+// One entry per rubric criterion; criteria the assessor skipped score 0
+export const toRubricBreakdown = (rubric: Rubric, raw: RawCriterionScore[]): RubricBreakdown => ({
+  rubricId: rubric.id,
+  rubricName: rubric.name,
+  criteria: rubric.criteria.map(criterion => {
+    const match = raw.find(r => r.key === criterion.key);
+    const score = Math.max(0, Math.min(100, Math.round(Number(match?.score) || 0)));
+    return { key: criterion.key, weight: criterion.weight, score, level: levelForScore(score), rationale: match?.rationale || '' };
+  }),
+});
@@ -0,0 +1,81 @@
+import { GoalResult, Message, ScenarioGoal, StyleKey, TurnClassification } from "../types";
+import { classifyTurn, SLII_LEVELS, STYLE_KEYS } from "./sliiScoring";
+
+// Multi-goal scenarios: the same employee is at a different development level on each goal, so the manager has to
+// diagnose and flex per goal within one conversation.
+
+// Keywords, falling back to the words of the goal title
+const goalKeywords = (goal: ScenarioGoal): string[] =>
+  (goal.keywords && goal.keywords.length > 0 ? goal.keywords : goal.title.split(/\s+/))
+    .map(k => k.trim())
+    .filter(k => k.length >= 2);
+
+export const findGoalForText = (text: string, goals: ScenarioGoal[]): ScenarioGoal | undefined =>
+  goals.find(goal => goalKeywords(goal).some(keyword => text.includes(keyword)));
+
+// Roleplay prompt section
+export const describeGoalsForEmployee = (goals: ScenarioGoal[]): string => goals
+  .map(goal => `- On "${goal.title}" you are at ${goal.developmentLevel}.`)
+  .join('\n    ');
+
+// Assessor prompt section
+export const describeGoalsForAssessor = (goals: ScenarioGoal[]): string => goals
+  .map(goal => `- ${goal.id}: "${goal.title}" — ${goal.developmentLevel}, needs ${SLII_LEVELS[goal.developmentLevel].needs}`)
+  .join('\n');
+
+export interface RawGoalAssessment {
+  goalId: string;
+  styleUsed: string; // S1–S4, or "none" if the goal never came up
+  score: number;
+  feedback: string;
+  turnNumbers: number[]; // [Turn N] numbers of manager messages about the goal
+}
+
+const toGoalResult = (goal: ScenarioGoal, styleUsed: StyleKey | null, score: number, feedback: string, messageIds: string[]): GoalResult => {
+  const neededStyle = SLII_LEVELS[goal.developmentLevel].needs;
+  return {
+    goalId: goal.id,
+    title: goal.title,
+    developmentLevel: goal.developmentLevel,
+    neededStyle,
+    styleUsed,
+    isMatch: styleUsed === neededStyle,
+    score: Math.max(0, Math.min(100, Math.round(Number(score) || 0))),
+    feedback,
+    messageIds,
+  };
+};
+
+export const toGoalResults = (goals: ScenarioGoal[], raw: RawGoalAssessment[], history: Message[]): GoalResult[] => {
+  const managerMessages = history.filter(m => m.role === 'user');
+  return goals.map(goal => {
+    const entry = raw.find(r => r.goalId === goal.id);
+    const styleUsed = entry && (STYLE_KEYS as string[]).includes(entry.styleUsed) ? entry.styleUsed as StyleKey : null;
+    const messageIds = (entry?.turnNumbers || [])
+      .map(n => managerMessages[n - 1]?.id)
+      .filter((id): id is string => !!id);
+    return toGoalResult(goal, styleUsed, entry?.score ?? 0, entry?.feedback || '', messageIds);
+  });
+};
+
+// Rule-based per-goal results: turns are assigned to goals by keyword and the goal's style is the most used one
+export const scoreGoalsByRules = (goals: ScenarioGoal[], history: Message[], classifications?: TurnClassification[]): GoalResult[] => {
+  const byMessage = new Map((classifications || []).map(c => [c.messageId, c]));
+  const managerTurns = history.filter(m => m.role === 'user' && m.text.trim() !== '');
+
+  return goals.map(goal => {
+    const turns = managerTurns.filter(m => findGoalForText(m.text, goals)?.id === goal.id);
+    if (turns.length === 0) {
+      return toGoalResult(goal, null, 0, '이 목표에 대한 대화가 없었습니다.', []);
+    }
+    const counts: Record<StyleKey, number> = { S1: 0, S2: 0, S3: 0, S4: 0 };
+    turns.forEach(m => { counts[(byMessage.get(m.id) || classifyTurn(m)).style]++; });
+    const styleUsed = STYLE_KEYS.reduce((best, k) => (counts[k] > counts[best] ? k : best), 'S1' as StyleKey);
+    const neededStyle = SLII_LEVELS[goal.developmentLevel].needs;
+    const score = Math.round((counts[neededStyle] / turns.length) * 100);
+    const feedback = styleUsed === neededStyle
+      ? `${goal.developmentLevel} 단계에 맞는 ${neededStyle} 스타일을 주로 사용했습니다.`
+      : `주로 ${styleUsed} 스타일을 사용했습니다. ${goal.developmentLevel} 단계에는 ${neededStyle} 스타일이 필요합니다.`;
+    return toGoalResult(goal, styleUsed, score, feedback, turns.map(m => m.id));
+  });
+};
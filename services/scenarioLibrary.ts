@@ -0,0 +1,107 @@
+import { LibraryScenario, LibraryScenarioVersion, Scenario, ScenarioDifficulty } from "../types";
+import { isApiStorageEnabled, fetchScenarios, saveScenarioToServer } from "./apiClient";
+
+// Curated scenario library. Stored in this browser (localStorage) by default, or on the team server when
+// SESSION_STORE=api so every facilitator and cohort sees the same vetted cases.
+
+const LIBRARY_KEY = 'slii_scenario_library';
+
+export type LibraryScenarioDraft = Omit<LibraryScenario, 'id' | 'version' | 'isArchived' | 'createdAt' | 'updatedAt' | 'updatedBy' | 'versions'> & {
+  id?: string; // Set when editing an existing entry
+};
+
+export const DIFFICULTY_LABELS: Record<ScenarioDifficulty, string> = {
+  easy: '쉬움',
+  medium: '보통',
+  hard: '어려움',
+};
+
+const loadLocal = (): LibraryScenario[] => {
+  try {
+    const saved = localStorage.getItem(LIBRARY_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load scenario library", e);
+    return [];
+  }
+};
+
+const saveLocal = (scenarios: LibraryScenario[]) => {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(scenarios));
+};
+
+const putLibraryScenario = async (scenario: LibraryScenario): Promise<void> => {
+  if (isApiStorageEnabled()) {
+    await saveScenarioToServer(scenario);
+    return;
+  }
+  const others = loadLocal().filter(s => s.id !== scenario.id);
+  saveLocal([...others, scenario]);
+};
+
+// The server's scenarios table may also hold plain Scenarios saved before the library existed
+const isLibraryScenario = (scenario: Scenario): scenario is LibraryScenario =>
+  typeof (scenario as LibraryScenario).version === 'number';
+
+// The entry without its edit history, e.g. for the copy stored with a played session
+export const withoutVersionHistory = ({ versions, ...scenario }: LibraryScenario): LibraryScenarioVersion => scenario;
+
+// Newest first. Archived entries are included; callers filter for participants.
+export const listLibraryScenarios = async (): Promise<LibraryScenario[]> => {
+  const scenarios = isApiStorageEnabled()
+    ? (await fetchScenarios()).filter(isLibraryScenario)
+    : loadLocal();
+  return [...scenarios].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// Creates a new entry (version 1) or saves an edit as the next version, keeping the replaced one in `versions`
+export const saveLibraryScenario = async (draft: LibraryScenarioDraft, editorName: string): Promise<LibraryScenario> => {
+  if (!draft.title.trim() || !draft.employeeName.trim() || !draft.initialMessage.trim()) {
+    throw new Error("제목, 직원 이름, 첫 대사는 필수입니다.");
+  }
+  if (draft.transitions?.some(t => t.from === t.to)) {
+    throw new Error("발달 단계 변화의 시작 단계와 목표 단계가 같습니다.");
+  }
+  if (draft.goals?.some(g => !g.title.trim())) {
+    throw new Error("목표 이름을 입력해 주세요.");
+  }
+  // The first goal's level doubles as the scenario's headline level (selector badges, blind-mode grading)
+  const goals = draft.goals?.length ? draft.goals : undefined;
+  // A persona with nothing filled in is dropped rather than stored empty
+  const persona = draft.persona && (draft.persona.traits.length || draft.persona.communicationStyle.trim() || draft.persona.tenure.trim() || draft.persona.hiddenConcern?.trim())
+    ? draft.persona
+    : undefined;
+
+  const now = new Date().toISOString();
+  const existing = draft.id ? (await listLibraryScenarios()).find(s => s.id === draft.id) : undefined;
+  const scenario: LibraryScenario = {
+    ...draft,
+    developmentLevel: goals ? goals[0].developmentLevel : draft.developmentLevel,
+    goals,
+    persona,
+    id: existing?.id || `lib-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    version: existing ? existing.version + 1 : 1,
+    isArchived: existing?.isArchived ?? false,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    updatedBy: editorName,
+    versions: existing ? [...(existing.versions || []), withoutVersionHistory(existing)] : [],
+  };
+  await putLibraryScenario(scenario);
+  return scenario;
+};
+
+// Restoring saves the earlier content as the next version, so the history itself is never rewritten
+export const restoreLibraryScenarioVersion = async (scenario: LibraryScenario, version: number, editorName: string): Promise<LibraryScenario> => {
+  const snapshot = scenario.versions?.find(v => v.version === version);
+  if (!snapshot) throw new Error(`v${version} 이력을 찾을 수 없습니다.`);
+  const { version: _, isArchived, createdAt, updatedAt, updatedBy, ...content } = snapshot;
+  return saveLibraryScenario({ ...content, id: scenario.id }, editorName);
+};
+
+// Archiving doesn't change the content, so the version stays the same
+export const setLibraryScenarioArchived = async (scenario: LibraryScenario, isArchived: boolean, editorName: string): Promise<LibraryScenario> => {
+  const updated: LibraryScenario = { ...scenario, isArchived, updatedAt: new Date().toISOString(), updatedBy: editorName };
+  await putLibraryScenario(updated);
+  return updated;
+};
@@ -0,0 +1,81 @@
+import { DevelopmentLevel, DiagnosisAccuracy, DiagnosisCheck, SelfDiagnosis, SessionDiagnosis, SessionRecord } from "../types";
+import { SLII_LEVELS, STYLE_KEYS } from "./sliiScoring";
+import { getRecordLevel } from "./participantProfile";
+
+// Blind mode: the participant does not see the follower's development level and declares their own diagnosis
+// (level + intended style) before and after the conversation. The declarations are graded against the scenario.
+
+const LEVEL_KEYS = Object.values(DevelopmentLevel);
+
+// Half of each check is the level, half the style; an adjacent level/style earns half of its share
+const partialCredit = (distance: number) => distance === 0 ? 50 : distance === 1 ? 25 : 0;
+
+const checkDiagnosis = (declared: SelfDiagnosis, actualLevel: DevelopmentLevel): DiagnosisCheck => {
+  const neededStyle = SLII_LEVELS[actualLevel].needs;
+  return {
+    ...declared,
+    levelCorrect: declared.level === actualLevel,
+    styleCorrect: declared.style === neededStyle,
+  };
+};
+
+const checkScore = (check: DiagnosisCheck, actualLevel: DevelopmentLevel): number =>
+  partialCredit(Math.abs(LEVEL_KEYS.indexOf(check.level) - LEVEL_KEYS.indexOf(actualLevel))) +
+  partialCredit(Math.abs(STYLE_KEYS.indexOf(check.style) - STYLE_KEYS.indexOf(SLII_LEVELS[actualLevel].needs)));
+
+export const gradeDiagnosis = (actualLevel: DevelopmentLevel, diagnosis: SessionDiagnosis): DiagnosisAccuracy | undefined => {
+  if (!diagnosis.before && !diagnosis.after) return undefined;
+  const before = diagnosis.before && checkDiagnosis(diagnosis.before, actualLevel);
+  const after = diagnosis.after && checkDiagnosis(diagnosis.after, actualLevel);
+  const checks = [before, after].filter((c): c is DiagnosisCheck => !!c);
+  return {
+    actualLevel,
+    neededStyle: SLII_LEVELS[actualLevel].needs,
+    before,
+    after,
+    score: Math.round(checks.reduce((acc, c) => acc + checkScore(c, actualLevel), 0) / checks.length),
+  };
+};
+
+// Blind mode: scenario text written by facilitators or the model may still name the level ("(D1)", "D2 단계로, ...")
+export const maskLevelReferences = (text: string): string => text
+  .replace(/\s*[(\[]\s*D[1-4]\s*[)\]]/g, '')
+  .replace(/D[1-4]\s*(단계|수준|레벨)[^\s,.]*[,.]?\s*/g, '')
+  .replace(/\bD[1-4]\b/g, 'D?')
+  .trim();
+
+// Assessor prompt lines for a blind-mode session
+export const describeDiagnosis = (diagnosis: SessionDiagnosis): string => [
+  "The manager did NOT see the employee's development level (blind mode) and declared their own diagnosis:",
+  diagnosis.before && `- Before the conversation: ${diagnosis.before.level}, planning ${diagnosis.before.style}`,
+  diagnosis.after && `- After the conversation: ${diagnosis.after.level}, would use ${diagnosis.after.style}`,
+].filter(Boolean).join('\n');
+
+export interface LevelDiagnosisSummary {
+  level: DevelopmentLevel;
+  sessions: number; // Blind sessions at this level
+  beforeRate: number | null; // 0–100, share of correct pre-chat level diagnoses; null when none were declared
+  afterRate: number | null;
+  averageScore: number;
+}
+
+const rate = (checks: (DiagnosisCheck | undefined)[]): number | null => {
+  const declared = checks.filter((c): c is DiagnosisCheck => !!c);
+  return declared.length === 0 ? null : Math.round((declared.filter(c => c.levelCorrect).length / declared.length) * 100);
+};
+
+// Diagnosis accuracy per actual development level, over blind-mode sessions only
+export const summarizeDiagnosisByLevel = (records: SessionRecord[]): LevelDiagnosisSummary[] =>
+  LEVEL_KEYS.flatMap(level => {
+    const graded = records
+      .filter(r => !r.isDeleted && getRecordLevel(r) === level && r.result.diagnosisAccuracy)
+      .map(r => r.result.diagnosisAccuracy!);
+    if (graded.length === 0) return [];
+    return [{
+      level,
+      sessions: graded.length,
+      beforeRate: rate(graded.map(g => g.before)),
+      afterRate: rate(graded.map(g => g.after)),
+      averageScore: Math.round(graded.reduce((acc, g) => acc + g.score, 0) / graded.length),
+    }];
+  });
@@ -0,0 +1,41 @@
+import { SessionCheckpoint } from "../types";
+
+// Checkpoint of the roleplay in progress, kept in this browser's localStorage. Written after each completed turn,
+// with the clock refreshed in between, and cleared once the session is analyzed or replaced, so at most one session
+// is waiting to be resumed.
+
+const CHECKPOINT_KEY = 'slii_session_checkpoint';
+export const CHECKPOINT_CLOCK_INTERVAL_MS = 5000; // At most this much time is handed back by a reload
+
+export const saveCheckpoint = (checkpoint: SessionCheckpoint) => {
+  try {
+    localStorage.setItem(CHECKPOINT_KEY, JSON.stringify(checkpoint));
+  } catch (e) {
+    console.error("Failed to save session checkpoint", e);
+  }
+};
+
+export const loadCheckpoint = (): SessionCheckpoint | null => {
+  try {
+    const saved = localStorage.getItem(CHECKPOINT_KEY);
+    if (!saved) return null;
+    const checkpoint: SessionCheckpoint = JSON.parse(saved);
+    return checkpoint.scenario && Array.isArray(checkpoint.messages) ? checkpoint : null;
+  } catch (e) {
+    console.error("Failed to read session checkpoint", e);
+    return null;
+  }
+};
+
+// Keeps the stored clock current between turns, so a reload never hands back the time since the last turn
+export const updateCheckpointClock = (elapsedSeconds: number) => {
+  const checkpoint = loadCheckpoint();
+  if (checkpoint) saveCheckpoint({ ...checkpoint, savedAt: new Date().toISOString(), elapsedSeconds });
+};
+
+export const clearCheckpoint = () => {
+  localStorage.removeItem(CHECKPOINT_KEY);
+};
+
+export const countManagerTurns = (checkpoint: SessionCheckpoint): number =>
+  checkpoint.messages.filter(m => m.role === 'user' && m.text.trim() !== '').length;
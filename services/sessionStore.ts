@@ -0,0 +1,88 @@
+import { SessionRecord } from "../types";
+import { isApiStorageEnabled } from "./apiClient";
+import { indexedDbSessionStore } from "./storage/indexedDbSessionStore";
+import { apiSessionStore } from "./storage/apiSessionStore";
+
+// Storage facade for SessionRecords. App.tsx talks only to this module; the backing repository is
+// IndexedDB in this browser (default) or the self-hosted API when SESSION_STORE=api.
+// Writes are announced to other tabs through a BroadcastChannel.
+
+export type SessionIndex = 'companyName' | 'userName' | 'date';
+
+export interface SessionRepository {
+  getAllSessions: () => Promise<SessionRecord[]>;
+  getSessionsBy: (index: SessionIndex, value: string) => Promise<SessionRecord[]>;
+  getSession: (id: string) => Promise<SessionRecord | undefined>;
+  putSession: (record: SessionRecord) => Promise<void>;
+  updateSessions: (ids: string[], patch: Partial<SessionRecord>) => Promise<void>;
+  deleteSessions: (ids: string[]) => Promise<void>;
+}
+
+const CHANNEL_NAME = 'slii_sessions';
+const REMOTE_POLL_INTERVAL_MS = 30000; // Picks up sessions saved from other devices
+
+interface SessionChangeMessage {
+  type: 'sessions-changed';
+  ids: string[];
+}
+
+let channel: BroadcastChannel | null = null;
+
+const getRepository = (): SessionRepository => isApiStorageEnabled() ? apiSessionStore : indexedDbSessionStore;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+const notifyChanged = (ids: string[]) => {
+  const message: SessionChangeMessage = { type: 'sessions-changed', ids };
+  getChannel()?.postMessage(message);
+};
+
+export const getAllSessions = () => getRepository().getAllSessions();
+
+export const getSessionsBy = (index: SessionIndex, value: string) => getRepository().getSessionsBy(index, value);
+
+export const getSession = (id: string) => getRepository().getSession(id);
+
+export const putSession = async (record: SessionRecord): Promise<void> => {
+  await getRepository().putSession(record);
+  notifyChanged([record.id]);
+};
+
+export const updateSessions = async (ids: string[], patch: Partial<SessionRecord>): Promise<void> => {
+  await getRepository().updateSessions(ids, patch);
+  notifyChanged(ids);
+};
+
+export const deleteSessions = async (ids: string[]): Promise<void> => {
+  await getRepository().deleteSessions(ids);
+  notifyChanged(ids);
+};
+
+// Subscribe to writes made in other tabs (and, with the API store, other devices). Returns an unsubscribe function.
+export const subscribeToSessionChanges = (onChange: (ids: string[]) => void): (() => void) => {
+  const cleanups: (() => void)[] = [];
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    // Separate instance from the posting channel, so writes from this tab are echoed here too (harmless: callers reload)
+    const listener = new BroadcastChannel(CHANNEL_NAME);
+    listener.onmessage = (event: MessageEvent<SessionChangeMessage>) => {
+      if (event.data?.type === 'sessions-changed') {
+        onChange(event.data.ids);
+      }
+    };
+    cleanups.push(() => listener.close());
+  }
+
+  if (isApiStorageEnabled()) {
+    const timer = setInterval(() => onChange([]), REMOTE_POLL_INTERVAL_MS);
+    cleanups.push(() => clearInterval(timer));
+  }
+
+  return () => cleanups.forEach(cleanup => cleanup());
+};
@@ -0,0 +1,83 @@
+import { Message, Scenario, SessionRecord, SessionTiming, TimerMode, TimerSettings, TrainingProgram } from "../types";
+
+// Session timer modes and time-aware analysis. The timer is resolved per session (program, then scenario, then the
+// 5-minute soft default); elapsed time, turns and response latencies are saved with the record.
+
+export const TIMER_MODE_LABELS: Record<TimerMode, string> = {
+  soft: '권장 시간 (경고만)',
+  hard: '제한 시간 (자동 종료)',
+  untimed: '시간 제한 없음',
+};
+
+export const DEFAULT_TIMER: TimerSettings = { mode: 'soft', durationSeconds: 300 };
+
+export const resolveTimer = (scenario: Scenario, program?: TrainingProgram): TimerSettings =>
+  program?.timer ?? scenario.timer ?? DEFAULT_TIMER;
+
+export const formatClock = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export const buildSessionTiming = (timer: TimerSettings, elapsedSeconds: number, history: Message[]): SessionTiming => {
+  const managerTurns = history.filter(m => m.role === 'user' && m.text.trim() !== '');
+  const isTimed = timer.mode !== 'untimed';
+  return {
+    timerMode: timer.mode,
+    durationSeconds: isTimed ? timer.durationSeconds : null,
+    elapsedSeconds,
+    turnCount: managerTurns.length,
+    turnLatenciesMs: managerTurns.flatMap(m => (m.pacing ? [m.pacing.responseLatencyMs] : [])),
+    timedOut: timer.mode === 'hard' && elapsedSeconds >= timer.durationSeconds,
+  };
+};
+
+const average = (values: number[]) => values.length === 0 ? null : values.reduce((acc, v) => acc + v, 0) / values.length;
+
+const SLOW_RESPONSE_MS = 30000;
+const MIN_TURNS = 3;
+
+// Assessor prompt section
+export const describeTimingForAssessor = (timing: SessionTiming): string => {
+  const latency = average(timing.turnLatenciesMs);
+  return [
+    `Session time: ${timing.elapsedSeconds}s${timing.durationSeconds ? ` of a ${timing.durationSeconds}s ${timing.timerMode} limit` : ' (untimed)'}`,
+    `${timing.turnCount} manager turns`,
+    latency !== null ? `average response time ${Math.round(latency / 1000)}s` : '',
+    timing.timedOut ? 'the time limit ended the session' : '',
+  ].filter(Boolean).join(', ') + '.';
+};
+
+// Rule-based efficiency feedback (mock mode, and when the assessor gives none)
+export const describeEfficiency = (timing: SessionTiming): string => {
+  if (timing.turnCount === 0) return '대화가 없었습니다.';
+  const base = `${formatClock(timing.elapsedSeconds)} 동안 ${timing.turnCount}회 발화했습니다 (발화당 평균 ${Math.round(timing.elapsedSeconds / timing.turnCount)}초).`;
+  const latency = average(timing.turnLatenciesMs);
+  if (timing.timedOut) return `${base} 제한 시간 안에 대화를 마무리하지 못했습니다. 핵심 합의에 더 빨리 도달하는 연습이 필요합니다.`;
+  if (timing.turnCount < MIN_TURNS) return `${base} 대화가 짧아 팀원의 상황을 충분히 파악하기 어렵습니다.`;
+  if (latency !== null && latency > SLOW_RESPONSE_MS) return `${base} 답변까지 평균 ${Math.round(latency / 1000)}초가 걸렸습니다. 실제 대화에서는 더 짧은 호흡이 필요합니다.`;
+  return `${base} 대화 흐름이 적절했습니다.`;
+};
+
+export interface EfficiencySummary {
+  sessions: number;
+  averageElapsedSeconds: number;
+  averageTurns: number;
+  averageLatencyMs: number | null;
+  timedOut: number;
+}
+
+// Dashboard totals over the records that have timing
+export const summarizeEfficiency = (records: SessionRecord[]): EfficiencySummary | null => {
+  const timings = records.flatMap(r => (r.timing ? [r.timing] : []));
+  if (timings.length === 0) return null;
+  const latency = average(timings.flatMap(t => t.turnLatenciesMs));
+  return {
+    sessions: timings.length,
+    averageElapsedSeconds: Math.round(average(timings.map(t => t.elapsedSeconds))!),
+    averageTurns: Math.round(average(timings.map(t => t.turnCount))! * 10) / 10,
+    averageLatencyMs: latency === null ? null : Math.round(latency),
+    timedOut: timings.filter(t => t.timedOut).length,
+  };
+};
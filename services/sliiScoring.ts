@@ -0,0 +1,173 @@
+import { AnalysisResult, DevelopmentLevel, Message, RuleBasedScore, SLIIBehavior, StyleKey, TurnClassification } from "../types";
+
+// Deterministic SLII scoring. Each manager turn is rated for directive and supportive behavior, the turns are
+// combined into an S1–S4 distribution, and the result is compared with the style the follower's development
+// level needs. Runs next to the LLM assessor so its score can be checked against a transparent baseline.
+
+export const STYLE_KEYS: StyleKey[] = ['S1', 'S2', 'S3', 'S4'];
+
+type Degree = 'High' | 'Low';
+
+// Single source for the SLII model; getSLIIDefinitions() renders the assessor prompt from these tables
+export const SLII_LEVELS: Record<DevelopmentLevel, { name: string; competence: string; commitment: string; needs: StyleKey }> = {
+  [DevelopmentLevel.D1]: { name: 'Enthusiastic Beginner', competence: 'Low', commitment: 'High', needs: 'S1' },
+  [DevelopmentLevel.D2]: { name: 'Disillusioned Learner', competence: 'Low/Some', commitment: 'Low', needs: 'S2' },
+  [DevelopmentLevel.D3]: { name: 'Capable but Cautious', competence: 'Mod/High', commitment: 'Variable', needs: 'S3' },
+  [DevelopmentLevel.D4]: { name: 'Self-Reliant Achiever', competence: 'High', commitment: 'High', needs: 'S4' },
+};
+
+export const SLII_STYLES: Record<StyleKey, { name: string; directive: Degree; supportive: Degree; behaviors: string }> = {
+  S1: { name: 'Directing', directive: 'High', supportive: 'Low', behaviors: 'Define roles, give specific instructions.' },
+  S2: { name: 'Coaching', directive: 'High', supportive: 'High', behaviors: 'Explain decisions, solicit suggestions, support progress.' },
+  S3: { name: 'Supporting', directive: 'Low', supportive: 'High', behaviors: 'Facilitate, listen, encourage, share responsibility for decision-making.' },
+  S4: { name: 'Delegating', directive: 'Low', supportive: 'Low', behaviors: 'Turn over responsibility for decisions and implementation.' },
+};
+
+export const describeSLIIModel = (): string => `
+Context: Ken Blanchard's Situational Leadership II (SLII).
+${Object.entries(SLII_LEVELS).map(([level, d]) =>
+  `- ${level} (${d.name}): ${d.competence} Competence, ${d.commitment} Commitment. Needs ${d.needs} (${SLII_STYLES[d.needs].name}).`
+).join('\n')}
+
+Styles:
+${STYLE_KEYS.map(key => {
+  const s = SLII_STYLES[key];
+  return `- ${key} (${s.name}): ${s.directive} Directive, ${s.supportive} Supportive. ${s.behaviors}`;
+}).join('\n')}
+`;
+
+// Behavior catalog. Cues are keywords for the rule-based classifier (Korean roleplay transcripts).
+export const SLII_BEHAVIORS: Record<SLIIBehavior, { label: string; kind: 'directive' | 'supportive'; cues: string[] }> = {
+  goal_setting: { label: '목표 설정', kind: 'directive', cues: ['목표', '계획'] },
+  clarifying_roles: { label: '역할 명확화', kind: 'directive', cues: ['담당', '역할', '지시'] },
+  timeline: { label: '기한 제시', kind: 'directive', cues: ['까지', '마감'] },
+  showing_how: { label: '방법 안내', kind: 'directive', cues: ['하세요', '해주세요', '하십시오', '해야', '먼저', '단계', '방법', '순서'] },
+  monitoring: { label: '진행 점검', kind: 'directive', cues: ['확인'] },
+  asking_input: { label: '의견 묻기', kind: 'supportive', cues: ['?', '어떻게 생각', '의견'] },
+  listening: { label: '경청·공감', kind: 'supportive', cues: ['괜찮', '힘들', '걱정'] },
+  explaining_why: { label: '이유 설명', kind: 'supportive', cues: ['이유', '왜냐하면', '때문에'] },
+  encouraging: { label: '격려', kind: 'supportive', cues: ['응원', '믿'] },
+  praising: { label: '인정·칭찬', kind: 'supportive', cues: ['잘하', '잘 하', '고마', '감사'] },
+  problem_solving: { label: '함께 해결', kind: 'supportive', cues: ['도와', '함께'] },
+};
+
+const BEHAVIOR_KEYS = Object.keys(SLII_BEHAVIORS) as SLIIBehavior[];
+
+export const isSLIIBehavior = (value: string): value is SLIIBehavior => value in SLII_BEHAVIORS;
+
+const CUE_WEIGHT = 5; // Behavior points per matched cue, capped at 10
+export const HIGH_BEHAVIOR_THRESHOLD = 5; // On the 0–10 scale, at or above this counts as "High"
+export const DISAGREEMENT_SCORE_GAP = 20; // Rule vs LLM score gap that gets flagged
+
+const countCues = (text: string, cues: string[]) => cues.filter(cue => text.includes(cue)).length;
+
+// Maps directive/supportive ratings (0–10) onto the SLII quadrant
+export const styleFromBehavior = (directive: number, supportive: number): StyleKey => {
+  const highDirective = directive >= HIGH_BEHAVIOR_THRESHOLD;
+  const highSupportive = supportive >= HIGH_BEHAVIOR_THRESHOLD;
+  if (highDirective && highSupportive) return 'S2';
+  if (highDirective) return 'S1';
+  if (highSupportive) return 'S3';
+  return 'S4';
+};
+
+export const classifyTurn = (message: Message): TurnClassification => {
+  let directiveHits = 0;
+  let supportiveHits = 0;
+  const behaviors: SLIIBehavior[] = [];
+  BEHAVIOR_KEYS.forEach(key => {
+    const hits = countCues(message.text, SLII_BEHAVIORS[key].cues);
+    if (hits === 0) return;
+    behaviors.push(key);
+    if (SLII_BEHAVIORS[key].kind === 'directive') directiveHits += hits;
+    else supportiveHits += hits;
+  });
+  const directive = Math.min(10, directiveHits * CUE_WEIGHT);
+  const supportive = Math.min(10, supportiveHits * CUE_WEIGHT);
+  return { messageId: message.id, directive, supportive, style: styleFromBehavior(directive, supportive), behaviors };
+};
+
+export interface RawTurnBehavior {
+  turnNumber: number; // [Turn N] in the numbered transcript
+  directiveScore: number;
+  supportiveScore: number;
+  behaviors: string[];
+}
+
+// Converts the assessor's per-turn ratings into TurnClassifications keyed by message id
+export const toTurnClassifications = (raw: RawTurnBehavior[], history: Message[]): TurnClassification[] => {
+  const managerMessages = history.filter(m => m.role === 'user');
+  const clamp = (value: number) => Math.max(0, Math.min(10, Math.round(Number(value) || 0)));
+  return raw.flatMap(turn => {
+    const message = managerMessages[turn.turnNumber - 1];
+    if (!message) return [];
+    const directive = clamp(turn.directiveScore);
+    const supportive = clamp(turn.supportiveScore);
+    return [{
+      messageId: message.id,
+      directive,
+      supportive,
+      style: styleFromBehavior(directive, supportive),
+      behaviors: (turn.behaviors || []).filter(isSLIIBehavior),
+    }];
+  });
+};
+
+// Assessor ratings when available, otherwise the keyword rules (records analyzed before per-turn tagging)
+export const getTurnClassifications = (result: AnalysisResult): TurnClassification[] =>
+  result.turnBehaviors && result.turnBehaviors.length > 0 ? result.turnBehaviors : result.ruleBasedScore?.turns || [];
+
+// Convert style counts to percentages that sum to exactly 100
+export const toStyleDistribution = (counts: Record<StyleKey, number>, total: number): Record<StyleKey, number> => {
+  if (total === 0) return { S1: 25, S2: 25, S3: 25, S4: 25 };
+  const dist = { S1: 0, S2: 0, S3: 0, S4: 0 };
+  STYLE_KEYS.forEach(k => { dist[k] = Math.round((counts[k] / total) * 100); });
+  const drift = 100 - STYLE_KEYS.reduce((acc, k) => acc + dist[k], 0);
+  const top = STYLE_KEYS.reduce((best, k) => (dist[k] > dist[best] ? k : best), 'S1' as StyleKey);
+  dist[top] += drift;
+  return dist;
+};
+
+// Full credit for turns in the needed style, half credit for an adjacent style (S1↔S2, S2↔S3, S3↔S4)
+const styleCredit = (style: StyleKey, needed: StyleKey): number => {
+  const distance = Math.abs(STYLE_KEYS.indexOf(style) - STYLE_KEYS.indexOf(needed));
+  return distance === 0 ? 1 : distance === 1 ? 0.5 : 0;
+};
+
+// `classifications` lets callers supply per-turn ratings from elsewhere; otherwise the keyword rules are used
+export const scoreSessionByRules = (
+  level: DevelopmentLevel,
+  history: Message[],
+  classifications?: TurnClassification[]
+): RuleBasedScore => {
+  const expectedStyle = SLII_LEVELS[level]?.needs || 'S1';
+  const turns = classifications || history
+    .filter(m => m.role === 'user' && m.text.trim() !== '')
+    .map(classifyTurn);
+
+  const counts: Record<StyleKey, number> = { S1: 0, S2: 0, S3: 0, S4: 0 };
+  turns.forEach(t => { counts[t.style]++; });
+  const styleScore = toStyleDistribution(counts, turns.length);
+  const primaryStyle = STYLE_KEYS.reduce((best, k) => (styleScore[k] > styleScore[best] ? k : best), 'S1' as StyleKey);
+
+  return {
+    styleScore,
+    primaryStyle,
+    expectedStyle,
+    isMatch: turns.length > 0 && primaryStyle === expectedStyle,
+    score: turns.length === 0 ? 0 : Math.round(STYLE_KEYS.reduce((acc, k) => acc + styleScore[k] * styleCredit(k, expectedStyle), 0)),
+    turns,
+  };
+};
+
+export interface ScoreDisagreement {
+  scoreGap: number; // LLM score minus rule-based score
+  matchDiffers: boolean;
+  isFlagged: boolean;
+}
+
+export const compareWithRuleScore = (llm: { score: number; isMatch: boolean }, rules: RuleBasedScore): ScoreDisagreement => {
+  const scoreGap = llm.score - rules.score;
+  const matchDiffers = llm.isMatch !== rules.isMatch;
+  return { scoreGap, matchDiffers, isFlagged: matchDiffers || Math.abs(scoreGap) >= DISAGREEMENT_SCORE_GAP };
+};
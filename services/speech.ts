@@ -0,0 +1,83 @@
+import { Scenario, SpeechRecognitionLike } from "../types";
+
+// Browser speech for voice roleplay: Web Speech API recognition for the manager, speech synthesis for the employee.
+// Both are optional browser features; the chat falls back to text when they're missing.
+
+const SPEECH_LANG = 'ko-KR';
+
+const getRecognitionConstructor = (): (new () => SpeechRecognitionLike) | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  return window.SpeechRecognition || window.webkitSpeechRecognition;
+};
+
+export const isVoiceSupported = (): boolean =>
+  !!getRecognitionConstructor() && typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export interface RecognizerHandlers {
+  onSpeechStart: () => void;
+  onTranscript: (text: string, isFinal: boolean) => void; // Text so far for the current utterance
+  onEnd: () => void;
+  onError: (error: string) => void;
+}
+
+// One utterance per start(); recognition stops by itself when the speaker pauses
+export const createRecognizer = (handlers: RecognizerHandlers): SpeechRecognitionLike | null => {
+  const Recognition = getRecognitionConstructor();
+  if (!Recognition) return null;
+  const recognition = new Recognition();
+  recognition.lang = SPEECH_LANG;
+  recognition.interimResults = true;
+  recognition.continuous = false;
+  recognition.onspeechstart = handlers.onSpeechStart;
+  recognition.onresult = (event) => {
+    let text = '';
+    let isFinal = true;
+    for (let i = 0; i < event.results.length; i++) {
+      text += event.results[i][0].transcript;
+      isFinal = isFinal && event.results[i].isFinal;
+    }
+    handlers.onTranscript(text.trim(), isFinal);
+  };
+  recognition.onerror = (event) => handlers.onError(event.error);
+  recognition.onend = handlers.onEnd;
+  return recognition;
+};
+
+const hashString = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (Math.imul(31, hash) + text.charCodeAt(i)) | 0;
+  }
+  return hash >>> 0;
+};
+
+// A stable voice per employee: one of the installed Korean voices plus a pitch/rate offset from the persona
+const getPersonaVoice = (scenario: Scenario) => {
+  const hash = hashString(`${scenario.employeeName}|${scenario.employeeRole}`);
+  const voices = window.speechSynthesis.getVoices().filter(v => v.lang.replace('_', '-').startsWith('ko'));
+  return {
+    voice: voices.length > 0 ? voices[hash % voices.length] : null,
+    pitch: 0.8 + ((hash >> 4) % 5) * 0.1, // 0.8–1.2
+    rate: 0.95 + ((hash >> 8) % 4) * 0.05, // 0.95–1.1
+  };
+};
+
+export const speak = (text: string, scenario: Scenario, onEnd: () => void) => {
+  const synth = window.speechSynthesis;
+  synth.cancel();
+  const { voice, pitch, rate } = getPersonaVoice(scenario);
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = SPEECH_LANG;
+  if (voice) utterance.voice = voice;
+  utterance.pitch = pitch;
+  utterance.rate = rate;
+  utterance.onend = onEnd;
+  utterance.onerror = onEnd;
+  synth.speak(utterance);
+};
+
+export const isSpeaking = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window && window.speechSynthesis.speaking;
+
+export const cancelSpeech = () => {
+  if (typeof window !== 'undefined' && 'speechSynthesis' in window) window.speechSynthesis.cancel();
+};
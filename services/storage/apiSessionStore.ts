@@ -0,0 +1,48 @@
+import { SessionRecord } from "../../types";
+import { apiRequest } from "../apiClient";
+import { SessionIndex, SessionRepository } from "../sessionStore";
+
+// SessionRepository backed by the self-hosted REST API (server/), shared by every device in a cohort
+
+// Deleted records are included like in IndexedDB (the dashboard's trash); the server only honors that for admins
+const getAllSessions = () => apiRequest<SessionRecord[]>('/api/sessions?includeDeleted=true');
+
+// Every index, date included, is filtered on the server
+const getSessionsBy = (index: SessionIndex, value: string): Promise<SessionRecord[]> =>
+  apiRequest<SessionRecord[]>(`/api/sessions?includeDeleted=true&${index}=${encodeURIComponent(value)}`);
+
+const getSession = async (id: string): Promise<SessionRecord | undefined> => {
+  try {
+    return await apiRequest<SessionRecord>(`/api/sessions/${encodeURIComponent(id)}`);
+  } catch (error: any) {
+    if (String(error.message).startsWith('404')) return undefined;
+    throw error;
+  }
+};
+
+const putSession = async (record: SessionRecord): Promise<void> => {
+  await apiRequest<SessionRecord>(`/api/sessions/${encodeURIComponent(record.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(record),
+  });
+};
+
+const updateSessions = async (ids: string[], patch: Partial<SessionRecord>): Promise<void> => {
+  await apiRequest('/api/sessions', {
+    method: 'PATCH',
+    body: JSON.stringify({ ids, patch }),
+  });
+};
+
+const deleteSessions = async (ids: string[]): Promise<void> => {
+  await apiRequest(`/api/sessions?ids=${ids.map(encodeURIComponent).join(',')}`, { method: 'DELETE' });
+};
+
+export const apiSessionStore: SessionRepository = {
+  getAllSessions,
+  getSessionsBy,
+  getSession,
+  putSession,
+  updateSessions,
+  deleteSessions,
+};
@@ -0,0 +1,137 @@
+import { SessionRecord } from "../../types";
+import { SessionIndex, SessionRepository } from "../sessionStore";
+
+// IndexedDB-backed SessionRepository (the default, browser-local store).
+// Replaces the old single localStorage['slii_records'] JSON blob with per-record writes.
+
+const DB_NAME = 'slii_coach';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const LEGACY_STORAGE_KEY = 'slii_records';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Wrap an IDBRequest in a Promise
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const waitForTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+
+// One-time copy of the old localStorage blob into IndexedDB. The old key is removed only after the write commits.
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  let legacy: SessionRecord[] = [];
+  try {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return;
+    legacy = JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to read legacy records for migration", e);
+    return;
+  }
+
+  if (Array.isArray(legacy) && legacy.length > 0) {
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = tx.objectStore(SESSIONS_STORE);
+    legacy.forEach(record => store.put(record));
+    await waitForTransaction(tx);
+    console.info(`Migrated ${legacy.length} session records from localStorage to IndexedDB.`);
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          store.createIndex('companyName', 'companyName', { unique: false });
+          store.createIndex('userName', 'userName', { unique: false });
+          store.createIndex('date', 'date', { unique: false });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      await migrateFromLocalStorage(db);
+      return db;
+    });
+
+    // Allow a later retry if opening failed (e.g. private browsing restrictions)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const sortNewestFirst = (records: SessionRecord[]) =>
+  records.sort((a, b) => (a.date < b.date ? 1 : a.date > b.date ? -1 : 0));
+
+const getAllSessions = async (): Promise<SessionRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const records = await promisifyRequest<SessionRecord[]>(tx.objectStore(SESSIONS_STORE).getAll());
+  return sortNewestFirst(records);
+};
+
+const getSessionsBy = async (index: SessionIndex, value: string): Promise<SessionRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const records = await promisifyRequest<SessionRecord[]>(tx.objectStore(SESSIONS_STORE).index(index).getAll(value));
+  return sortNewestFirst(records);
+};
+
+const getSession = async (id: string): Promise<SessionRecord | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  return promisifyRequest<SessionRecord | undefined>(tx.objectStore(SESSIONS_STORE).get(id));
+};
+
+const putSession = async (record: SessionRecord): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  tx.objectStore(SESSIONS_STORE).put(record);
+  await waitForTransaction(tx);
+};
+
+// Applies a partial update to each existing record, in a single transaction
+const updateSessions = async (ids: string[], patch: Partial<SessionRecord>): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  ids.forEach(id => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) {
+        store.put({ ...request.result, ...patch, id });
+      }
+    };
+  });
+  await waitForTransaction(tx);
+};
+
+const deleteSessions = async (ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  ids.forEach(id => store.delete(id));
+  await waitForTransaction(tx);
+};
+
+export const indexedDbSessionStore: SessionRepository = {
+  getAllSessions,
+  getSessionsBy,
+  getSession,
+  putSession,
+  updateSessions,
+  deleteSessions,
+};
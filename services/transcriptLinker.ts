@@ -0,0 +1,49 @@
+import { Message, TurnFeedback } from "../types";
+import { describeTurnPacing } from "./conversationPacing";
+
+// Links each turnByTurnAnalysis entry to the manager message it critiques (TurnFeedback.messageId).
+// Uses, in order: an existing messageId, the assessor's turnNumber, then snippet matching for legacy records.
+
+const normalize = (text: string) =>
+  text
+    .replace(/\.{3}|…/g, ' ')
+    .replace(/["'“”‘’]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+const findBySnippet = (snippet: string, managerMessages: Message[]): Message | undefined => {
+  const target = normalize(snippet);
+  if (!target) return undefined;
+  return managerMessages.find(m => {
+    const text = normalize(m.text);
+    return text.includes(target) || target.includes(text);
+  });
+};
+
+export const linkTurnsToMessages = (turns: TurnFeedback[], history: Message[]): TurnFeedback[] => {
+  const managerMessages = history.filter(m => m.role === 'user');
+  const knownIds = new Set(managerMessages.map(m => m.id));
+
+  return turns.map(turn => {
+    if (turn.messageId && knownIds.has(turn.messageId)) return turn;
+
+    const byNumber = turn.turnNumber ? managerMessages[turn.turnNumber - 1] : undefined;
+    const match = byNumber || findBySnippet(turn.userMessageSnippet, managerMessages);
+    return match ? { ...turn, messageId: match.id } : turn;
+  });
+};
+
+// Builds the numbered transcript sent to the assessor, so it can cite manager turns by number
+export const formatNumberedTranscript = (history: Message[]): string => {
+  let managerTurn = 0;
+  return history
+    .map(m => {
+      if (m.role === 'user') {
+        managerTurn++;
+        return `[Turn ${managerTurn}] Manager${describeTurnPacing(m.pacing)}: ${m.text}`;
+      }
+      return `Employee: ${m.text}`;
+    })
+    .join("\n");
+};
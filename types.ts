@@ -7,6 +7,8 @@ export enum AppState {
   ROLEPLAY = 'ROLEPLAY',
   ANALYSIS = 'ANALYSIS',
   ADMIN_LOGIN = 'ADMIN_LOGIN',
+  ADMIN_SETUP = 'ADMIN_SETUP', // First-run creation of the initial admin account
+  PARTICIPANT_PROFILE = 'PARTICIPANT_PROFILE', // One participant's sessions over time (admins: anyone; participants: their own)
 }
 
 export enum DevelopmentLevel {
@@ -22,8 +24,147 @@ export interface Scenario {
   description: string;
   employeeName: string;
   employeeRole: string;
-  developmentLevel: DevelopmentLevel;
+  developmentLevel: DevelopmentLevel; // Starting level; `transitions` may move the follower during the session
   initialMessage: string; // The opening line from the follower
+  transitions?: LevelTransition[];
+  goals?: ScenarioGoal[]; // Goal-specific levels; the first goal's level is also `developmentLevel`
+  persona?: EmployeePersona;
+  timer?: TimerSettings; // Defaults to a 5-minute soft timer; a program's timer takes precedence
+}
+
+export type TimerMode = 'soft' | 'hard' | 'untimed';
+
+export interface TimerSettings {
+  mode: TimerMode; // soft = warn only, hard = auto-finish at zero
+  durationSeconds: number; // Ignored when untimed
+}
+
+// Time spent in a session (see services/sessionTiming.ts)
+export interface SessionTiming {
+  timerMode: TimerMode;
+  durationSeconds: number | null; // null when untimed
+  elapsedSeconds: number;
+  turnCount: number; // Manager turns
+  turnLatenciesMs: number[]; // Response latency of each manager turn that recorded one
+  timedOut: boolean; // A hard timer ended the session
+}
+
+// Who the employee is beyond their development level (see services/employeePersona.ts)
+export interface EmployeePersona {
+  traits: string[]; // e.g. ["꼼꼼함", "내성적"]
+  communicationStyle: string; // e.g. "돌려 말하고 결론을 늦게 말함"
+  tenure: string; // e.g. "입사 3년차, 팀 이동 2개월"
+  hiddenConcern?: string; // Only shared once the leader has earned it with open questions and listening
+}
+
+// One task or goal in a multi-goal scenario; development level is goal-specific in SLII
+export interface ScenarioGoal {
+  id: string;
+  title: string; // e.g. "신규 리포팅 툴 도입"
+  developmentLevel: DevelopmentLevel;
+  keywords?: string[]; // Words that mark a manager turn as being about this goal (rule-based mapping)
+}
+
+// Scenario-defined level change, triggered by the leader's behavior (see services/followerDynamics.ts)
+export interface LevelTransition {
+  from: DevelopmentLevel;
+  to: DevelopmentLevel;
+  triggerStyle?: StyleKey; // A manager turn counts when it falls in this style...
+  triggerBehavior?: SLIIBehavior; // ...and/or shows this behavior
+  turns: number; // Consecutive counting turns needed
+  note?: string; // What changed for the follower, given to the roleplay model
+}
+
+// The simulated employee's hidden state after each manager turn
+export interface FollowerState {
+  turn: number; // Manager turns so far (0 = before the first one)
+  messageId?: string; // Manager message that produced this state
+  level: DevelopmentLevel;
+  competence: number; // 0–10
+  commitment: number; // 0–10
+  transitionedFrom?: DevelopmentLevel; // Set on the turn a transition fired
+  note?: string;
+}
+
+export type ScenarioDifficulty = 'easy' | 'medium' | 'hard';
+
+// A curated scenario kept in the library (services/scenarioLibrary). Sessions store the copy they played,
+// including its version, so results stay comparable after later edits.
+export interface LibraryScenario extends Scenario {
+  industry: string;
+  jobRole: string;
+  difficulty: ScenarioDifficulty;
+  version: number; // Incremented on every saved edit
+  isArchived: boolean; // Archived scenarios are hidden from participants but kept for past sessions
+  createdAt: string;
+  updatedAt: string;
+  updatedBy?: string; // Facilitator display name
+  versions?: LibraryScenarioVersion[]; // Earlier versions, oldest first
+}
+
+// Snapshot of a library scenario as it was saved before a later edit
+export type LibraryScenarioVersion = Omit<LibraryScenario, 'versions'>;
+
+export interface ProgramStep {
+  scenarioId: string; // LibraryScenario id
+  dueDate?: string; // YYYY-MM-DD
+}
+
+// A facilitator-defined training program: an ordered set of library scenarios assigned to a cohort
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  companyName: string; // Cohort company; participants are matched on companyName + userName
+  steps: ProgramStep[];
+  participants: string[]; // Invited participant names
+  blindMode?: boolean; // Hide the follower's development level; participants diagnose it themselves
+  timer?: TimerSettings; // Overrides the scenarios' own timers for the whole program
+  isArchived: boolean;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string; // Facilitator display name
+}
+
+// Links a session to the program step it completes
+export interface ProgramAssignmentRef {
+  programId: string;
+  scenarioId: string;
+}
+
+export type RubricCriterionKey = 'diagnosis' | 'style_match' | 'flexibility' | 'partnering';
+export type RubricLevel = 'exemplary' | 'proficient' | 'developing' | 'beginning';
+
+export interface RubricCriterion {
+  key: RubricCriterionKey;
+  weight: number; // Percent; a rubric's weights sum to 100
+  descriptors: Record<RubricLevel, string>; // What performance at each level looks like
+}
+
+// Weighted assessment criteria, configurable per client company
+export interface Rubric {
+  id: string;
+  name: string;
+  companyName: string; // '' = used for companies without a rubric of their own
+  criteria: RubricCriterion[];
+  isArchived: boolean;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy?: string; // Facilitator display name
+}
+
+export interface CriterionScore {
+  key: RubricCriterionKey;
+  weight: number;
+  score: number; // 0–100
+  level: RubricLevel;
+  rationale: string;
+}
+
+// How the total score was built: AnalysisResult.score is the weighted average of `criteria`
+export interface RubricBreakdown {
+  rubricId: string;
+  rubricName: string;
+  criteria: CriterionScore[];
 }
 
 export interface Message {
@@ -31,9 +172,27 @@ export interface Message {
   role: 'user' | 'model' | 'system';
   text: string;
   timestamp: number;
+  pacing?: MessagePacing; // Manager messages only
+}
+
+// How the manager answered a reply (see services/conversationPacing.ts)
+export interface MessagePacing {
+  inputMode: 'voice' | 'text';
+  responseLatencyMs: number; // From the end of the employee's reply (read aloud or shown) to the manager starting to answer
+  interruptedReply?: boolean; // The manager started speaking while the reply was still being read aloud
+}
+
+export interface PacingSummary {
+  pacedTurns: number;
+  voiceTurns: number;
+  averageLatencyMs: number;
+  longestLatencyMs: number;
+  interruptions: number;
 }
 
 export interface TurnFeedback {
+  messageId?: string; // Id of the manager Message this entry critiques (see services/transcriptLinker)
+  turnNumber?: number; // 1-based manager turn number as cited by the assessor
   userMessageSnippet: string;
   critique: string;
   betterAlternative: string;
@@ -45,6 +204,115 @@ export interface ActionItem {
   metric: string; // How to measure success
 }
 
+export type ActionItemStatus = 'open' | 'in_progress' | 'done';
+
+// An ActionItem the participant tracks after the session (see services/actionItems)
+export interface TrackedActionItem extends ActionItem {
+  id: string;
+  status: ActionItemStatus;
+  progress: number; // Self-reported 0-100 against the metric
+  progressNote?: string; // What was measured, e.g. "재질문 5회 → 2회"
+  dueDate?: string; // YYYY-MM-DD parsed from `deadline`; missing when the text has no time frame
+  updatedAt: string;
+}
+
+export type StyleKey = 'S1' | 'S2' | 'S3' | 'S4';
+
+// Observable SLII leader behaviors (see SLII_BEHAVIORS in services/sliiScoring for labels and cues)
+export type SLIIBehavior =
+  | 'goal_setting' | 'clarifying_roles' | 'timeline' | 'showing_how' | 'monitoring' // Directive
+  | 'asking_input' | 'listening' | 'explaining_why' | 'encouraging' | 'praising' | 'problem_solving'; // Supportive
+
+// Directive/supportive rating of one manager message (0–10 each) and the SLII style it falls into
+export interface TurnClassification {
+  messageId: string;
+  directive: number;
+  supportive: number;
+  style: StyleKey;
+  behaviors?: SLIIBehavior[];
+}
+
+// Deterministic score computed by services/sliiScoring alongside the LLM assessment
+export interface RuleBasedScore {
+  styleScore: Record<StyleKey, number>;
+  primaryStyle: StyleKey;
+  expectedStyle: StyleKey; // Style the scenario's DevelopmentLevel needs
+  isMatch: boolean;
+  score: number;
+  turns: TurnClassification[];
+}
+
+// Participant's own read of the follower in blind mode: the level they see and the style they intend to use
+export interface SelfDiagnosis {
+  level: DevelopmentLevel;
+  style: StyleKey;
+}
+
+export interface SessionDiagnosis {
+  before?: SelfDiagnosis; // Declared before the first message
+  after?: SelfDiagnosis; // Declared when finishing the conversation
+}
+
+export interface DiagnosisCheck extends SelfDiagnosis {
+  levelCorrect: boolean;
+  styleCorrect: boolean;
+}
+
+// Graded self-diagnosis; only present on blind-mode sessions
+export interface DiagnosisAccuracy {
+  actualLevel: DevelopmentLevel;
+  neededStyle: StyleKey;
+  before?: DiagnosisCheck;
+  after?: DiagnosisCheck;
+  score: number; // 0–100
+}
+
+// One stretch of the conversation during which the follower stayed at one level
+export interface LevelSegment {
+  level: DevelopmentLevel;
+  neededStyle: StyleKey;
+  startTurn: number; // 1-based manager turns, inclusive
+  endTurn: number;
+  matchRate: number; // 0–100, share of the segment's turns in the needed style
+  turnsToAdapt: number | null; // Turns until the manager first used the needed style; null if never
+}
+
+// How well the leader followed a follower whose level changed (scenarios with transitions only)
+export interface AdaptationResult {
+  trajectory: FollowerState[];
+  segments: LevelSegment[];
+  score: number | null; // Average match rate after the level changed; null if it never did
+}
+
+// Style match for one goal of a multi-goal scenario
+export interface GoalResult {
+  goalId: string;
+  title: string;
+  developmentLevel: DevelopmentLevel;
+  neededStyle: StyleKey;
+  styleUsed: StyleKey | null; // null when the goal never came up
+  isMatch: boolean;
+  score: number; // 0–100
+  feedback: string;
+  messageIds: string[]; // Manager messages about this goal
+}
+
+// Whether the leader surfaced the employee's hidden concern
+export interface ConcernDiscovery {
+  concern: string;
+  earnedAtTurn: number | null; // Manager turn at which the simulator was allowed to share it
+  uncovered: boolean; // The leader actually learned and acknowledged it
+  evidence: string;
+}
+
+// Spread across repeated assessor runs (see services/analysisSampling.ts)
+export interface AnalysisConfidence {
+  sampleCount: number;
+  scores: number[]; // Each run's score, in run order
+  scoreMargin: number; // Shown as "score ± scoreMargin" (half the min–max range)
+  matchVotes: number; // Runs that judged isMatch true
+}
+
 export interface AnalysisResult {
   // Changed to array to support Primary/Secondary styles. 
   // Backward compatibility note: Old records might have this as a string at runtime.
@@ -63,6 +331,50 @@ export interface AnalysisResult {
   summaryFeedback: string;
   turnByTurnAnalysis: TurnFeedback[];
   actionPlan: ActionItem[];
+  ruleBasedScore?: RuleBasedScore; // Missing on records analyzed before rule-based scoring existed
+  turnBehaviors?: TurnClassification[]; // Assessor's rating of every manager message (missing on older records)
+  confidence?: AnalysisConfidence; // Only set when the assessor ran more than once
+  rubricBreakdown?: RubricBreakdown; // Missing on records analyzed before rubrics existed
+  diagnosisAccuracy?: DiagnosisAccuracy;
+  adaptation?: AdaptationResult;
+  goalResults?: GoalResult[]; // Multi-goal scenarios only
+  concernDiscovery?: ConcernDiscovery; // Scenarios with a hidden concern only
+  pacing?: PacingSummary; // Voice sessions only
+  branchComparison?: BranchResult[]; // Sessions with more than one branch
+  efficiency?: { timing: SessionTiming; feedback: string };
+}
+
+// Rewind & branch: alternative conversations forked from an earlier manager turn (see services/conversationTree.ts)
+export interface ConversationBranch {
+  id: string;
+  label: string; // e.g. "대화 2"
+  parentId: string | null; // null for the original conversation
+  forkAt: number; // Messages of the parent's history this branch keeps before its own
+  messages: Message[]; // Messages after the fork
+}
+
+export interface ConversationTree {
+  branches: ConversationBranch[];
+  activeBranchId: string;
+}
+
+// One branch scored next to the others
+export interface BranchResult {
+  branchId: string;
+  label: string;
+  isFinal: boolean; // The branch the session was finished on; the rest of the report is about it
+  divergedAtTurn: number | null; // First manager turn that differs from the final branch; null for the final one
+  openingLine: string; // The manager's line at that turn
+  score: number;
+  primaryStyle: string;
+  isMatch: boolean;
+  summaryFeedback: string;
+}
+
+// Practice-mode hint usage; hinted scores are reported apart from unhinted ones
+export interface CoachingHintUsage {
+  enabled: boolean;
+  shownTurns: number; // Manager turns whose hint was on screen
 }
 
 export interface SessionRecord {
@@ -74,6 +386,13 @@ export interface SessionRecord {
   score: number;
   isDeleted: boolean; // For trash management
   result: AnalysisResult; // Store full result for review
+  transcript?: Message[]; // Full roleplay conversation (missing on older records)
+  scenario?: Scenario; // Original scenario as played (missing on older records)
+  assignment?: ProgramAssignmentRef; // Set when the session was played as a program assignment
+  actionItems?: TrackedActionItem[]; // Tracking state for result.actionPlan (missing on older records)
+  coachingHints?: CoachingHintUsage; // Set when the session was played in practice mode
+  conversationTree?: ConversationTree; // Set when the participant rewound; `transcript` is the final branch
+  timing?: SessionTiming; // Missing on records saved before timing was tracked
   
   // Extended details for dashboard view
   employeeName?: string;
@@ -81,6 +400,23 @@ export interface SessionRecord {
   developmentLevel?: DevelopmentLevel;
 }
 
+// In-progress roleplay saved after each turn so a reload or crash can resume it (see services/sessionCheckpoint.ts)
+export interface SessionCheckpoint {
+  savedAt: string;
+  userName: string;
+  companyName: string;
+  scenario: Scenario;
+  assignment?: ProgramAssignmentRef;
+  messages: Message[]; // Active branch
+  conversationTree?: ConversationTree;
+  isBlind: boolean;
+  beforeDiagnosis?: SelfDiagnosis;
+  isPractice: boolean;
+  hintedMessageIds: string[];
+  timer: TimerSettings;
+  elapsedSeconds: number; // Clock value at the last checkpoint; the timer resumes from here
+}
+
 export interface TeamAnalysisResult {
   overallScore: number;
   participantCount: number;
@@ -91,8 +427,51 @@ export interface TeamAnalysisResult {
   executiveSummary: string;
 }
 
+// A team report saved on the team server with the sessions it was built from
+export interface StoredTeamReport {
+  id: string;
+  createdAt: string;
+  companyName?: string;
+  recordIds: string[];
+  report: TeamAnalysisResult;
+}
+
+export interface AdminAccount {
+  id: string;
+  username: string; // Login ID (lowercased)
+  displayName: string; // Facilitator name shown in the dashboard
+  salt: string; // base64
+  passwordHash: string; // base64 PBKDF2-SHA256 output
+  iterations: number;
+  createdAt: string;
+}
+
+export interface AdminSession {
+  accountId: string;
+  username: string;
+  displayName: string;
+  expiresAt: number; // epoch ms
+  apiToken?: string; // Server ADMIN_TOKEN, only with SESSION_STORE=api
+}
+
+// Minimal typing; SpeechRecognition isn't part of TypeScript's DOM lib
+export interface SpeechRecognitionLike {
+  lang: string;
+  interimResults: boolean;
+  continuous: boolean;
+  onspeechstart: (() => void) | null;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
 declare global {
   interface Window {
     html2pdf: any;
+    SpeechRecognition?: new () => SpeechRecognitionLike;
+    webkitSpeechRecognition?: new () => SpeechRecognitionLike; // Chrome and Safari
   }
 }
\ No newline at end of file
@@ -7,13 +7,54 @@ export default defineConfig(({ mode }) => {
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, '.', '');
 
+  const readEnv = (key: string) => env[key] || process.env[key] || '';
+
+  // Client-side settings exposed as process.env.* (LLM providers: services/llmProvider.ts)
+  const clientEnvKeys = [
+    'LLM_MODEL', 'LLM_BASE_URL',
+    'ASSESSOR_PROVIDER', 'ASSESSOR_MODEL', 'ASSESSOR_BASE_URL',
+    'MOCK_SEED', 'LLM_PROXY_URL', 'ANALYSIS_SAMPLES',
+    // Team data storage (see services/sessionStore.ts)
+    'SESSION_STORE', 'API_BASE_URL',
+  ];
+
+  // API keys belong to the API server (LLM proxy, server/routes/coach.ts) and are never defined into the bundle.
+  // A provider whose key is set here would need it in the browser, so the config refuses it instead.
+  const providerSecrets: Record<string, string[]> = {
+    gemini: ['API_KEY', 'VITE_API_KEY', 'GEMINI_API_KEY'],
+    openai: ['OPENAI_API_KEY'],
+    local: ['LOCAL_LLM_API_KEY'],
+  };
+  const configuredSecrets = Object.values(providerSecrets).flat().filter(key => readEnv(key));
+  // With a key configured the browser talks to the proxy unless told otherwise
+  const llmProvider = readEnv('LLM_PROVIDER') || (configuredSecrets.length ? 'proxy' : '');
+  for (const provider of [llmProvider, readEnv('ASSESSOR_PROVIDER')].map(p => p.trim().toLowerCase())) {
+    const bundledSecrets = (providerSecrets[provider] || []).filter(key => readEnv(key));
+    if (bundledSecrets.length) {
+      throw new Error(
+        `${bundledSecrets.join(', ')} would ship in the web bundle with provider "${provider}". ` +
+        `Give the key to the API server (npm run server) and set LLM_PROVIDER=proxy for the web app.`
+      );
+    }
+  }
+
+  const clientDefines = Object.fromEntries(
+    clientEnvKeys.map(key => [`process.env.${key}`, JSON.stringify(readEnv(key))])
+  );
+
   return {
     plugins: [react()],
     define: {
       // Polyfill process.env to ensure it exists
       'process.env': {},
-      // Explicitly expose API_KEY to process.env.API_KEY
-      'process.env.API_KEY': JSON.stringify(env.API_KEY || process.env.API_KEY || env.VITE_API_KEY || '')
+      'process.env.LLM_PROVIDER': JSON.stringify(llmProvider),
+      ...clientDefines
+    },
+    server: {
+      // Lets LLM_PROXY_URL stay empty in development: /api calls go to the local API server
+      proxy: {
+        '/api': `http://localhost:${env.PORT || process.env.PORT || '8787'}`,
+      },
     },
     build: {
       outDir: 'dist',